@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "TradeStatus" AS ENUM ('PENDING', 'EXECUTED', 'CLOSING', 'SETTLED');
+
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN "openTxId" TEXT,
+ADD COLUMN "closeTxId" TEXT,
+ADD COLUMN "baseAmount" DECIMAL(20,9),
+ADD COLUMN "status" "TradeStatus" NOT NULL DEFAULT 'EXECUTED';
+
+-- AlterTable
+ALTER TABLE "runs" ADD COLUMN "needsAttention" BOOLEAN NOT NULL DEFAULT false;
+
+-- Backfill
+UPDATE "trades" SET "status" = 'SETTLED' WHERE "settledAt" IS NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trades_runId_round_key" ON "trades"("runId", "round");
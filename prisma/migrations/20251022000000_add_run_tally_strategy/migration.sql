@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "TallyStrategy" AS ENUM ('PLURALITY', 'DEPOSIT_WEIGHTED', 'XP_WEIGHTED', 'SUPERMAJORITY');
+
+-- CreateEnum
+CREATE TYPE "TieBreaker" AS ENUM ('SKIP', 'EARLIEST_VOTE', 'RANDOM');
+
+-- AlterTable
+ALTER TABLE "runs" ADD COLUMN "tallyStrategy" "TallyStrategy" NOT NULL DEFAULT 'PLURALITY',
+ADD COLUMN "tieBreaker" "TieBreaker" NOT NULL DEFAULT 'SKIP',
+ADD COLUMN "supermajorityThreshold" INTEGER NOT NULL DEFAULT 60;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "run_participants" ADD COLUMN "xpEarned" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "rewardedAt" TIMESTAMP(3);
+
+-- Runs settled before this migration were already rewarded
+UPDATE "run_participants" SET "rewardedAt" = CURRENT_TIMESTAMP WHERE "finalShare" IS NOT NULL;
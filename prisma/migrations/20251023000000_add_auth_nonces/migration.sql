@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "auth_nonces" (
+    "id" TEXT NOT NULL,
+    "walletAddress" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auth_nonces_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auth_nonces_nonce_key" ON "auth_nonces"("nonce");
+
+-- CreateIndex
+CREATE INDEX "auth_nonces_walletAddress_idx" ON "auth_nonces"("walletAddress");
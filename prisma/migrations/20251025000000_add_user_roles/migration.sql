@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "Role" AS ENUM ('USER', 'MODERATOR', 'OPERATOR', 'ADMIN');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "role" "Role" NOT NULL DEFAULT 'USER';
+
+-- CreateTable
+CREATE TABLE "role_permissions" (
+    "role" "Role" NOT NULL,
+    "permission" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "role_permissions_pkey" PRIMARY KEY ("role","permission")
+);
+
+-- Seed default role permissions
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+    ('MODERATOR', 'users:ban'),
+    ('OPERATOR', 'runs:start'),
+    ('OPERATOR', 'runs:end'),
+    ('OPERATOR', 'runs:cancel'),
+    ('ADMIN', 'runs:start'),
+    ('ADMIN', 'runs:end'),
+    ('ADMIN', 'runs:cancel'),
+    ('ADMIN', 'users:ban'),
+    ('ADMIN', 'users:roles'),
+    ('ADMIN', 'platform:manage');
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "audit_logs" (
+    "id" TEXT NOT NULL,
+    "actorId" TEXT,
+    "action" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "params" JSONB,
+    "txSignature" TEXT,
+    "success" BOOLEAN NOT NULL,
+    "statusCode" INTEGER NOT NULL,
+    "error" TEXT,
+    "ip" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_actorId_idx" ON "audit_logs"("actorId");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_action_idx" ON "audit_logs"("action");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_createdAt_idx" ON "audit_logs"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Grant the Drift, platform and audit permissions
+INSERT INTO "role_permissions" ("role", "permission") VALUES
+    ('OPERATOR', 'platform:manage'),
+    ('OPERATOR', 'drift:read'),
+    ('OPERATOR', 'drift:trade'),
+    ('ADMIN', 'drift:read'),
+    ('ADMIN', 'drift:trade'),
+    ('ADMIN', 'audit:read')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "runs" ADD COLUMN "onChainRunId" SERIAL NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "runs_onChainRunId_key" ON "runs"("onChainRunId");
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "ChainTxKind" AS ENUM ('CREATE_RUN', 'CREATE_VAULT', 'START_RUN', 'SETTLE_RUN', 'REFUND', 'UPDATE_VOTE_STATS');
+
+-- CreateEnum
+CREATE TYPE "ChainTxStatus" AS ENUM ('PENDING', 'CONFIRMED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "chain_transactions" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT,
+    "kind" "ChainTxKind" NOT NULL,
+    "signature" TEXT,
+    "status" "ChainTxStatus" NOT NULL DEFAULT 'PENDING',
+    "slot" INTEGER,
+    "error" TEXT,
+    "retries" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chain_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "chain_transactions_runId_createdAt_idx" ON "chain_transactions"("runId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "chain_transactions_status_idx" ON "chain_transactions"("status");
+
+-- AddForeignKey
+ALTER TABLE "chain_transactions" ADD CONSTRAINT "chain_transactions_runId_fkey" FOREIGN KEY ("runId") REFERENCES "runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
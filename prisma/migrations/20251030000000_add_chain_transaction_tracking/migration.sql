@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "ChainTxStatus" ADD VALUE 'QUEUED' BEFORE 'PENDING';
+ALTER TYPE "ChainTxStatus" ADD VALUE 'EXPIRED';
+ALTER TYPE "ChainTxStatus" ADD VALUE 'ABANDONED';
+ALTER TYPE "ChainTxStatus" ADD VALUE 'SUPERSEDED';
+
+-- AlterTable
+ALTER TABLE "chain_transactions" ADD COLUMN     "subject" TEXT,
+ADD COLUMN     "instructions" JSONB,
+ADD COLUMN     "lastValidBlockHeight" INTEGER;
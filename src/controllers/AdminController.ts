@@ -0,0 +1,101 @@
+import { Request, Response } from 'express';
+import { AuditService } from '@/services/AuditService';
+import { TransactionTrackerService } from '@/services/TransactionTrackerService';
+import { ApiResponse, PaginatedResponse } from '@/types';
+import logger from '@/utils/logger';
+
+export class AdminController {
+  constructor(private auditService: AuditService, private transactionTracker: TransactionTrackerService) {}
+
+  /**
+   * Get audit log entries for privileged calls
+   */
+  getAuditLogs = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { page = 1, limit = 20, actorId, action, success, from, to } = req.query as any;
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+
+      const { logs, total } = await this.auditService.getAuditLogs(
+        { actorId, action, success, from, to },
+        pageNum,
+        limitNum
+      );
+
+      const response: PaginatedResponse<any> = {
+        success: true,
+        data: logs,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error in getAuditLogs controller:', error);
+      this.handleError(error, res);
+    }
+  };
+
+  /**
+   * Get runs whose chain transactions exhausted their retries
+   */
+  getRunsNeedingAttention = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const runs = await this.transactionTracker.getRunsNeedingAttention();
+
+      const response: ApiResponse = {
+        success: true,
+        data: runs,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error in getRunsNeedingAttention controller:', error);
+      this.handleError(error, res);
+    }
+  };
+
+  /**
+   * Requeue an abandoned chain transaction for retry
+   */
+  retryTransaction = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { transactionId } = req.params;
+      const transaction = await this.transactionTracker.requeueTransaction(transactionId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: transaction,
+        message: 'Transaction requeued for retry',
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error in retryTransaction controller:', error);
+      this.handleError(error, res);
+    }
+  };
+
+  /**
+   * Handle errors
+   */
+  private handleError(error: any, res: Response): void {
+    if (error.statusCode) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message,
+      };
+      res.status(error.statusCode).json(response);
+    } else {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Internal server error',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
@@ -3,10 +3,11 @@ import { PublicKey } from '@solana/web3.js';
 import bs58 from 'bs58';
 import nacl from 'tweetnacl';
 import { UserService } from '@/services/UserService';
+import { AuthService } from '@/services/AuthService';
 import logger from '@/utils/logger';
 
 export class AuthController {
-  constructor(private userService: UserService) {}
+  constructor(private userService: UserService, private authService: AuthService) {}
 
   /**
    * Verify wallet signature and authenticate user
@@ -72,6 +73,9 @@ export class AuthController {
         return;
       }
 
+      // The signed SIWS message must match our config and carry an outstanding nonce for this wallet
+      await this.authService.verifySignInMessage(walletAddress, message);
+
       // Check if user exists
       let user = await this.userService.getUserByWalletAddress(walletAddress);
 
@@ -95,22 +99,75 @@ export class AuthController {
         }
       }
 
-      // Generate JWT token for the user
-      const token = await this.userService.generateAuthToken(user.id);
+      // Issue a short-lived access token and a refresh token for the user
+      const tokens = await this.authService.issueTokens(user);
 
       res.status(200).json({
         success: true,
         data: {
           user,
-          token,
+          ...tokens,
         },
         message: 'Wallet verified successfully',
       });
-    } catch (error) {
+    } catch (error: any) {
       logger.error('Error in verifyWallet:', error);
-      res.status(500).json({
+      res.status(error.statusCode || 500).json({
         success: false,
-        error: 'Internal server error',
+        error: error.statusCode ? error.message : 'Internal server error',
+      });
+    }
+  };
+
+  /**
+   * Exchange a refresh token for a new access/refresh token pair
+   */
+  refresh = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { refreshToken } = req.body;
+      const { user, tokens } = await this.authService.refreshTokens(refreshToken);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          user,
+          ...tokens,
+        },
+        message: 'Session refreshed successfully',
+      });
+    } catch (error: any) {
+      logger.error('Error in refresh:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.statusCode ? error.message : 'Internal server error',
+      });
+    }
+  };
+
+  /**
+   * Revoke the current access token and its refresh token
+   */
+  logout = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+        });
+        return;
+      }
+
+      await this.authService.logout(req.user, req.body.refreshToken);
+
+      res.status(200).json({
+        success: true,
+        message: 'Logged out successfully',
+      });
+    } catch (error: any) {
+      logger.error('Error in logout:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.statusCode ? error.message : 'Internal server error',
       });
     }
   };
@@ -130,15 +187,27 @@ export class AuthController {
         return;
       }
 
-      // Generate a unique nonce message for the wallet to sign
-      const timestamp = Date.now();
-      const message = `Sign this message to authenticate with Instinct.fi\n\nWallet: ${walletAddress}\nTimestamp: ${timestamp}\n\nThis signature will not trigger any blockchain transaction or cost any gas fees.`;
+      try {
+        new PublicKey(walletAddress as string);
+      } catch (error) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid Solana wallet address',
+        });
+        return;
+      }
+
+      // Issue a single-use SIWS message for the wallet to sign
+      const { message, fields, nonce, timestamp, expiresAt } = await this.authService.issueNonce(walletAddress as string);
 
       res.status(200).json({
         success: true,
         data: {
           message,
+          input: fields, // Structured fields for wallet adapters' signIn()
+          nonce,
           timestamp,
+          expiresAt,
         },
       });
     } catch (error) {
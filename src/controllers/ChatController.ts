@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import { ChatService } from '@/services/ChatService';
+import { SendMessageRequest, ApiResponse, PaginatedResponse } from '@/types';
+import logger from '@/utils/logger';
+
+export class ChatController {
+  constructor(private chatService: ChatService) {}
+
+  /**
+   * Get a run's chat messages
+   */
+  getMessages = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { page = 1, limit = 20 } = req.query;
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+
+      const { messages, total } = await this.chatService.getMessages(id, pageNum, limitNum);
+
+      const response: PaginatedResponse<any> = {
+        success: true,
+        data: messages,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error in getMessages controller:', error);
+      this.handleError(error, res);
+    }
+  };
+
+  /**
+   * Post a message to a run's chat
+   */
+  sendMessage = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { message }: SendMessageRequest = req.body;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'User not authenticated',
+        };
+        res.status(401).json(response);
+        return;
+      }
+
+      const chatMessage = await this.chatService.sendMessage(id, userId, message);
+
+      const response: ApiResponse = {
+        success: true,
+        data: chatMessage,
+        message: 'Message sent successfully',
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error in sendMessage controller:', error);
+      this.handleError(error, res);
+    }
+  };
+
+  /**
+   * Downvote a chat message
+   */
+  downvoteMessage = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, messageId } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'User not authenticated',
+        };
+        res.status(401).json(response);
+        return;
+      }
+
+      const chatMessage = await this.chatService.downvoteMessage(id, messageId, userId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: { id: chatMessage.id, downvotes: chatMessage.downvotes },
+        message: chatMessage.isDeleted ? 'Message hidden after downvotes' : 'Message downvoted successfully',
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error in downvoteMessage controller:', error);
+      this.handleError(error, res);
+    }
+  };
+
+  /**
+   * Handle errors
+   */
+  private handleError(error: any, res: Response): void {
+    if (error.statusCode) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message,
+      };
+      res.status(error.statusCode).json(response);
+    } else {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Internal server error',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
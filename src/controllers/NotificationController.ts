@@ -0,0 +1,136 @@
+import { Request, Response } from 'express';
+import { NotificationService } from '@/services/NotificationService';
+import { ApiResponse, PaginatedResponse } from '@/types';
+import logger from '@/utils/logger';
+
+export class NotificationController {
+  constructor(private notificationService: NotificationService) {}
+
+  /**
+   * Get the authenticated user's notifications
+   */
+  getNotifications = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'User not authenticated',
+        };
+        res.status(401).json(response);
+        return;
+      }
+
+      const { page = 1, limit = 20, unreadOnly = false } = req.query as any;
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+
+      const { notifications, total, unread } = await this.notificationService.getNotifications(
+        userId,
+        pageNum,
+        limitNum,
+        unreadOnly
+      );
+
+      const response: PaginatedResponse<any> & { unread: number } = {
+        success: true,
+        data: notifications,
+        unread,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error in getNotifications controller:', error);
+      this.handleError(error, res);
+    }
+  };
+
+  /**
+   * Mark a notification as read
+   */
+  markAsRead = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { notificationId } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'User not authenticated',
+        };
+        res.status(401).json(response);
+        return;
+      }
+
+      const notification = await this.notificationService.markAsRead(userId, notificationId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: notification,
+        message: 'Notification marked as read',
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error in markAsRead controller:', error);
+      this.handleError(error, res);
+    }
+  };
+
+  /**
+   * Mark all notifications as read
+   */
+  markAllAsRead = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'User not authenticated',
+        };
+        res.status(401).json(response);
+        return;
+      }
+
+      const count = await this.notificationService.markAllAsRead(userId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: { count },
+        message: `${count} notifications marked as read`,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error in markAllAsRead controller:', error);
+      this.handleError(error, res);
+    }
+  };
+
+  /**
+   * Handle errors
+   */
+  private handleError(error: any, res: Response): void {
+    if (error.statusCode) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message,
+      };
+      res.status(error.statusCode).json(response);
+    } else {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Internal server error',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { Request, Response } from 'express';
+import { PermissionService } from '@/services/PermissionService';
+import { ApiResponse, Role, UpdateRolePermissionsRequest } from '@/types';
+import logger from '@/utils/logger';
+
+export class RoleController {
+  constructor(private permissionService: PermissionService) {}
+
+  /**
+   * Get the permissions granted by every role
+   */
+  getRolePermissions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const permissions = await this.permissionService.getRolePermissions();
+
+      const response: ApiResponse = {
+        success: true,
+        data: permissions,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error in getRolePermissions controller:', error);
+      this.handleError(error, res);
+    }
+  };
+
+  /**
+   * Replace the permissions granted by a role
+   */
+  updateRolePermissions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const role = req.params.role.toUpperCase() as Role;
+
+      if (!Object.values(Role).includes(role)) {
+        const response: ApiResponse = {
+          success: false,
+          error: `Unknown role: ${req.params.role}`,
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const { permissions }: UpdateRolePermissionsRequest = req.body;
+      const granted = await this.permissionService.setRolePermissions(role, permissions);
+
+      const response: ApiResponse = {
+        success: true,
+        data: { role, permissions: granted },
+        message: 'Role permissions updated successfully',
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error in updateRolePermissions controller:', error);
+      this.handleError(error, res);
+    }
+  };
+
+  /**
+   * Handle errors
+   */
+  private handleError(error: any, res: Response): void {
+    if (error.statusCode) {
+      const response: ApiResponse = {
+        success: false,
+        error: error.message,
+      };
+      res.status(error.statusCode).json(response);
+    } else {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Internal server error',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
@@ -275,6 +275,26 @@ export class RunController {
     }
   };
 
+  /**
+   * Get run blockchain transactions
+   */
+  getRunTransactions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const transactions = await this.runService.getRunTransactions(id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: transactions,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error in getRunTransactions controller:', error);
+      this.handleError(error, res);
+    }
+  };
+
   /**
    * Get current voting round
    */
@@ -325,6 +345,28 @@ export class RunController {
     }
   };
 
+  /**
+   * Cancel a run
+   */
+  cancelRun = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const reason = req.body?.reason || 'cancelled by admin';
+      const run = await this.runService.cancelRun(id, reason);
+
+      const response: ApiResponse = {
+        success: true,
+        data: run,
+        message: 'Run cancelled and deposits refunded',
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error in cancelRun controller:', error);
+      this.handleError(error, res);
+    }
+  };
+
   /**
    * Handle errors
    */
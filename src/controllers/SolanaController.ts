@@ -11,7 +11,7 @@ let solanaServiceInstance: SolanaService | null = null;
 
 function getSolanaService(): SolanaService {
   if (!solanaServiceInstance) {
-    solanaServiceInstance = new SolanaService();
+    solanaServiceInstance = new SolanaService(prisma);
   }
   return solanaServiceInstance;
 }
@@ -85,7 +85,7 @@ export class SolanaController {
       if (isNaN(runNumericId)) {
         return res.status(400).json({
           success: false,
-          message: 'Invalid run ID',
+          message: 'Invalid run ID, expected the run\'s numeric onChainRunId',
         });
       }
 
@@ -141,7 +141,7 @@ export class SolanaController {
       if (isNaN(runNumericId)) {
         return res.status(400).json({
           success: false,
-          message: 'Invalid run ID',
+          message: 'Invalid run ID, expected the run\'s numeric onChainRunId',
         });
       }
 
@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { UserService } from '@/services/UserService';
-import { CreateUserRequest, UpdateUserRequest, ApiResponse } from '@/types';
+import { CreateUserRequest, UpdateUserRequest, UpdateUserRoleRequest, ApiResponse, Role } from '@/types';
 import { validate } from '@/utils/validation';
 import { createUserSchema, updateUserSchema, paginationSchema } from '@/utils/validation';
 import logger from '@/utils/logger';
@@ -244,6 +244,39 @@ export class UserController {
     }
   };
 
+  /**
+   * Assign a role to a user
+   */
+  updateUserRole = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { role }: UpdateUserRoleRequest = req.body;
+
+      // Admins cannot demote themselves and lock the platform out of role management
+      if (id === req.user?.id && role !== Role.ADMIN) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Cannot change your own role',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const user = await this.userService.updateUserRole(id, role);
+
+      const response: ApiResponse = {
+        success: true,
+        data: user,
+        message: 'User role updated successfully',
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error in updateUserRole controller:', error);
+      this.handleError(error, res);
+    }
+  };
+
   /**
    * Handle errors
    */
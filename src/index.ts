@@ -11,18 +11,32 @@ import '@/types'; // Import types to ensure Request extension is loaded
 
 // Import services and controllers
 import { UserService } from '@/services/UserService';
+import { BadgeService } from '@/services/BadgeService';
 import { RunService } from '@/services/RunService';
 import { RunSchedulerService } from '@/services/RunSchedulerService';
 import { DriftService } from '@/services/DriftService';
 import { WaitlistService } from '@/services/WaitlistService';
 import { PriceService } from '@/services/PriceService';
+import { DriftIntegrationService } from '@/services/DriftIntegrationService';
+import { ChatService } from '@/services/ChatService';
+import { AuthService } from '@/services/AuthService';
+import { AuditService } from '@/services/AuditService';
+import { PermissionService } from '@/services/PermissionService';
+import { createPubSubAdapter } from '@/services/PubSubService';
+import { NotificationService } from '@/services/NotificationService';
+import { TransactionTrackerService } from '@/services/TransactionTrackerService';
 import { UserController } from '@/controllers/UserController';
 import { RunController } from '@/controllers/RunController';
 import { MarketController } from '@/controllers/MarketController';
 import { AuthController } from '@/controllers/AuthController';
 import { WaitlistController } from '@/controllers/WaitlistController';
+import { ChatController } from '@/controllers/ChatController';
+import { AdminController } from '@/controllers/AdminController';
+import { NotificationController } from '@/controllers/NotificationController';
+import { RoleController } from '@/controllers/RoleController';
 import { AuthMiddleware } from '@/middleware/auth';
 import { createRoutes } from '@/routes';
+import { castVoteMessageSchema } from '@/utils/validation';
 
 // Import WebSocket server
 import { WebSocketService } from '@/services/WebSocketService';
@@ -31,14 +45,25 @@ class App {
   public app: express.Application;
   private prisma: PrismaClient;
   private wsServer: WebSocketService;
+  private authService: AuthService;
   private priceService: PriceService;
+  private driftIntegrationService: DriftIntegrationService;
+  private userService: UserService;
+  private badgeService: BadgeService;
+  private notificationService: NotificationService;
   private runScheduler: RunSchedulerService | null = null;
+  private transactionTracker: TransactionTrackerService | null = null;
 
   constructor() {
     this.app = express();
     this.prisma = new PrismaClient();
-    this.wsServer = new WebSocketService();
+    this.authService = new AuthService(this.prisma);
+    this.wsServer = new WebSocketService(this.authService, createPubSubAdapter());
     this.priceService = new PriceService(this.prisma, this.wsServer);
+    this.driftIntegrationService = new DriftIntegrationService();
+    this.notificationService = new NotificationService(this.prisma, this.wsServer);
+    this.userService = new UserService(this.prisma, this.notificationService);
+    this.badgeService = new BadgeService(this.prisma, this.userService, this.notificationService);
     
     this.initializeMiddleware();
     this.initializeRoutes();
@@ -89,29 +114,57 @@ class App {
 
   private initializeRoutes(): void {
     // Initialize services
-    const userService = new UserService(this.prisma);
-    const runService = new RunService(this.prisma);
+    const runService = new RunService(
+      this.prisma,
+      this.priceService,
+      this.driftIntegrationService,
+      this.userService,
+      this.badgeService,
+      this.wsServer,
+      this.notificationService
+    );
     const driftService = new DriftService();
     const waitlistService = new WaitlistService();
+    const chatService = new ChatService(this.prisma, this.wsServer);
+    const auditService = new AuditService(this.prisma);
+    const permissionService = new PermissionService(this.prisma);
 
     // Initialize and start run scheduler
-    this.runScheduler = new RunSchedulerService(this.prisma, runService);
+    this.runScheduler = new RunSchedulerService(this.prisma, runService, this.notificationService);
     this.runScheduler.start();
 
+    // Initialize and start chain transaction tracker
+    const transactionTracker = new TransactionTrackerService(this.prisma, runService.getSolanaService());
+    transactionTracker.start();
+    this.transactionTracker = transactionTracker;
+
+    // Accept votes over WebSocket for low-latency clients
+    this.wsServer.registerHandler('CAST_VOTE', castVoteMessageSchema, async (user, { runId, round, choice }) => {
+      await runService.castVote(runId, user.userId, round, choice);
+      return { runId, round, choice };
+    });
+
+    // Resuming subscribers that missed too many events get the full run
+    this.wsServer.setRunSnapshotProvider((runId) => runService.getRunById(runId));
+
     // Connect DriftService price updates to WebSocket broadcasts
     driftService.setPriceUpdateCallback((priceData) => {
       this.wsServer.broadcastPriceUpdate(priceData);
     });
 
     // Initialize controllers
-    const userController = new UserController(userService);
+    const userController = new UserController(this.userService);
     const runController = new RunController(runService);
     const marketController = new MarketController(this.priceService);
-    const authController = new AuthController(userService);
+    const authController = new AuthController(this.userService, this.authService);
     const waitlistController = new WaitlistController(waitlistService);
+    const chatController = new ChatController(chatService);
+    const adminController = new AdminController(auditService, transactionTracker);
+    const notificationController = new NotificationController(this.notificationService);
+    const roleController = new RoleController(permissionService);
 
     // Initialize middleware
-    const authMiddleware = new AuthMiddleware(this.prisma);
+    const authMiddleware = new AuthMiddleware(this.authService, permissionService, auditService);
 
     // Initialize routes
     const routes = createRoutes(
@@ -120,6 +173,10 @@ class App {
       marketController,
       authController,
       waitlistController,
+      chatController,
+      adminController,
+      notificationController,
+      roleController,
       authMiddleware
     );
     
@@ -184,6 +241,15 @@ class App {
       await this.prisma.$connect();
       logger.info('Connected to database');
 
+      // Grant ADMIN to configured wallets
+      await this.userService.syncAdminWallets();
+
+      // Keep the Badge table in sync with the badge catalog
+      await this.badgeService.syncCatalog();
+
+      // Initialize Drift trading (real or mock) used to execute run trades
+      await this.driftIntegrationService.initialize();
+
       // Start HTTP server
       const server = this.app.listen(config.port, () => {
         logger.info(`HTTP server running on port ${config.port}`);
@@ -192,9 +258,12 @@ class App {
       });
 
       // Start WebSocket server
-      this.wsServer.start(server);
+      await this.wsServer.start(server);
       logger.info(`WebSocket server running on port ${config.port}`);
 
+      // Purge expired and used sign-in nonces
+      this.authService.startNonceCleanup();
+
       // Start price monitoring service
       this.priceService.start();
       logger.info('Price monitoring service started');
@@ -207,10 +276,21 @@ class App {
         if (this.runScheduler) {
           this.runScheduler.stop();
         }
+
+        // Stop chain transaction tracker
+        if (this.transactionTracker) {
+          this.transactionTracker.stop();
+        }
         
         // Stop price monitoring service
         this.priceService.stop();
         logger.info('Price monitoring service stopped');
+
+        await this.driftIntegrationService.cleanup();
+
+        await this.wsServer.stop();
+
+        this.authService.stopNonceCleanup();
         
         server.close(async () => {
           logger.info('HTTP server closed');
@@ -0,0 +1,131 @@
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+import { AuthMiddleware } from './auth';
+import { AuthService } from '@/services/AuthService';
+import { AuditService } from '@/services/AuditService';
+import { PermissionService } from '@/services/PermissionService';
+import { Role } from '@/types';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// Minimal Express response that emits 'finish' once a body is sent
+const createResponse = () => {
+  const res = new EventEmitter() as EventEmitter & { statusCode: number; status: jest.Mock; json: jest.Mock };
+  res.statusCode = 200;
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = jest.fn(() => {
+    setImmediate(() => res.emit('finish'));
+    return res;
+  });
+  return res;
+};
+
+const createRequest = (method: string, role?: Role): Request => ({
+  method,
+  baseUrl: '/api/v1/runs',
+  path: '/run-1/start',
+  params: { id: 'run-1' },
+  query: {},
+  body: {},
+  ip: '127.0.0.1',
+  user: role ? { id: 'user-1', userId: 'user-1', walletAddress: 'wallet', username: 'trader', isBanned: false, role } : undefined,
+} as unknown as Request);
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('AuthMiddleware.requirePermission', () => {
+  const permissionService = {
+    hasPermission: jest.fn(async (role: Role, permission: string) => role === Role.OPERATOR && permission === 'runs:start'),
+  };
+  const auditService = { record: jest.fn(async () => null) };
+  const authMiddleware = new AuthMiddleware(
+    {} as AuthService,
+    permissionService as unknown as PermissionService,
+    auditService as unknown as AuditService
+  );
+
+  beforeEach(() => {
+    auditService.record.mockClear();
+  });
+
+  it('lets a role with the permission through and audits the call', async () => {
+    const req = createRequest('POST', Role.OPERATOR);
+    const res = createResponse();
+    const next = jest.fn(() => res.json({ success: true, data: { transactionId: 'sig' } }));
+
+    await authMiddleware.requirePermission('runs:start')(req, res as unknown as Response, next);
+    await flush();
+    await flush();
+
+    expect(next).toHaveBeenCalled();
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      actorId: 'user-1',
+      action: 'runs:start',
+      method: 'POST',
+      path: '/api/v1/runs/run-1/start',
+      txSignature: 'sig',
+      success: true,
+      statusCode: 200,
+    }));
+  });
+
+  it('rejects a role without the permission and audits the denial', async () => {
+    const req = createRequest('POST', Role.USER);
+    const res = createResponse();
+    const next = jest.fn();
+
+    await authMiddleware.requirePermission('runs:start')(req, res as unknown as Response, next);
+    await flush();
+    await flush();
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'runs:start',
+      success: false,
+      statusCode: 403,
+      error: 'Permission required: runs:start',
+    }));
+  });
+
+  it('does not audit allowed reads', async () => {
+    const req = createRequest('GET', Role.OPERATOR);
+    const res = createResponse();
+    const next = jest.fn(() => res.json({ success: true, data: [] }));
+
+    await authMiddleware.requirePermission('runs:start')(req, res as unknown as Response, next);
+    await flush();
+    await flush();
+
+    expect(next).toHaveBeenCalled();
+    expect(auditService.record).not.toHaveBeenCalled();
+  });
+
+  it('still audits denied reads', async () => {
+    const req = createRequest('GET', Role.USER);
+    const res = createResponse();
+
+    await authMiddleware.requirePermission('runs:start')(req, res as unknown as Response, jest.fn());
+    await flush();
+    await flush();
+
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({ method: 'GET', success: false }));
+  });
+
+  it('requires authentication', async () => {
+    const res = createResponse();
+    const next = jest.fn();
+
+    await authMiddleware.requirePermission('runs:start')(createRequest('POST'), res as unknown as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(permissionService.hasPermission).not.toHaveBeenCalledWith(undefined, 'runs:start');
+  });
+});
@@ -1,12 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { config } from '@/utils/config';
-import { JwtPayload } from '@/types';
-import { PrismaClient } from '@prisma/client';
+import { Permission } from '@/utils/permissions';
+import { AuthService } from '@/services/AuthService';
+import { PermissionService } from '@/services/PermissionService';
+import { AuditService } from '@/services/AuditService';
 import logger from '@/utils/logger';
 
+// Allowed calls with these methods are not audited
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
 export class AuthMiddleware {
-  constructor(private prisma: PrismaClient) {}
+  constructor(
+    private authService: AuthService,
+    private permissionService: PermissionService,
+    private auditService: AuditService
+  ) {}
 
   /**
    * Verify JWT token and attach user to request
@@ -25,58 +32,17 @@ export class AuthMiddleware {
 
       const token = authHeader.substring(7); // Remove 'Bearer ' prefix
 
-      try {
-        const decoded = jwt.verify(token, config.jwtSecret) as JwtPayload;
-        
-        // Get user from database
-        const user = await this.prisma.user.findUnique({
-          where: { id: decoded.userId },
-          select: {
-            id: true,
-            walletAddress: true,
-            username: true,
-            isBanned: true,
-            banExpiresAt: true,
-          },
-        });
-
-        if (!user) {
-          res.status(401).json({
-            success: false,
-            error: 'User not found',
-          });
-          return;
-        }
-
-        // Check if user is banned
-        if (user.isBanned) {
-          if (user.banExpiresAt && user.banExpiresAt > new Date()) {
-            res.status(403).json({
-              success: false,
-              error: 'User is banned',
-            });
-            return;
-          }
-        }
-
-        req.user = {
-          id: user.id,
-          userId: user.id,
-          walletAddress: user.walletAddress,
-          username: user.username,
-          isBanned: user.isBanned,
-          banExpiresAt: user.banExpiresAt || undefined,
-        };
-        next();
-      } catch (jwtError) {
-        logger.warn('JWT verification failed:', jwtError);
-        res.status(401).json({
+      req.user = await this.authService.verifyAccessToken(token);
+      next();
+    } catch (error: any) {
+      if (error.statusCode) {
+        res.status(error.statusCode).json({
           success: false,
-          error: 'Invalid token',
+          error: error.message,
         });
         return;
       }
-    } catch (error) {
+
       logger.error('Error in authenticate middleware:', error);
       res.status(500).json({
         success: false,
@@ -100,31 +66,9 @@ export class AuthMiddleware {
       const token = authHeader.substring(7);
 
       try {
-        const decoded = jwt.verify(token, config.jwtSecret) as JwtPayload;
-        
-        const user = await this.prisma.user.findUnique({
-          where: { id: decoded.userId },
-          select: {
-            id: true,
-            walletAddress: true,
-            username: true,
-            isBanned: true,
-            banExpiresAt: true,
-          },
-        });
-
-        if (user && (!user.isBanned || (user.banExpiresAt && user.banExpiresAt <= new Date()))) {
-          req.user = {
-            id: user.id,
-            userId: user.id,
-            walletAddress: user.walletAddress,
-            username: user.username,
-            isBanned: user.isBanned,
-            banExpiresAt: user.banExpiresAt || undefined,
-          };
-        }
-      } catch (jwtError) {
-        logger.warn('Optional JWT verification failed:', jwtError);
+        req.user = await this.authService.verifyAccessToken(token);
+      } catch (authError) {
+        logger.warn('Optional authentication failed:', authError);
       }
 
       next();
@@ -135,38 +79,43 @@ export class AuthMiddleware {
   };
 
   /**
-   * Check if user is admin (for admin-only routes)
+   * Require a permission granted by the user's role
+   * Denied calls and allowed calls that change state are written to the audit log
    */
-  requireAdmin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    try {
-      if (!req.user) {
-        res.status(401).json({
-          success: false,
-          error: 'Authentication required',
-        });
-        return;
-      }
+  requirePermission = (permission: Permission) => {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        if (!req.user) {
+          res.status(401).json({
+            success: false,
+            error: 'Authentication required',
+          });
+          return;
+        }
 
-      // TODO: Implement admin role check
-      // For now, we'll use a simple check based on username or add an admin field to user model
-      const isAdmin = req.user.username === 'admin' || req.user.walletAddress === 'admin';
+        if (!req.user.role || !(await this.permissionService.hasPermission(req.user.role, permission))) {
+          logger.warn(`Permission ${permission} denied for user ${req.user.id} (${req.user.role})`);
+          this.trackAudit(req, res, permission);
+          res.status(403).json({
+            success: false,
+            error: `Permission required: ${permission}`,
+          });
+          return;
+        }
 
-      if (!isAdmin) {
-        res.status(403).json({
+        // Reads (including of the audit log itself) would only flood the log
+        if (!READ_ONLY_METHODS.includes(req.method)) {
+          this.trackAudit(req, res, permission);
+        }
+        next();
+      } catch (error) {
+        logger.error('Error in requirePermission middleware:', error);
+        res.status(500).json({
           success: false,
-          error: 'Admin access required',
+          error: 'Internal server error',
         });
-        return;
       }
-
-      next();
-    } catch (error) {
-      logger.error('Error in requireAdmin middleware:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Internal server error',
-      });
-    }
+    };
   };
 
   /**
@@ -199,29 +148,37 @@ export class AuthMiddleware {
       });
     }
   };
-}
-
-/**
- * Generate JWT token for user
- */
-export const generateToken = (userId: string, walletAddress: string, username: string = '', isBanned: boolean = false): string => {
-  const payload: Omit<JwtPayload, 'iat' | 'exp'> = {
-    id: userId,
-    userId,
-    walletAddress,
-    username,
-    isBanned,
-  };
-
-  return jwt.sign(payload, config.jwtSecret, {
-    expiresIn: config.jwtExpiresIn as string,
-  } as jwt.SignOptions);
-};
-
-/**
- * Verify JWT token
- */
-export const verifyToken = (token: string): JwtPayload => {
-  return jwt.verify(token, config.jwtSecret) as JwtPayload;
-};
 
+  /**
+   * Record the outcome of a privileged call once its response has been sent
+   */
+  private trackAudit(req: Request, res: Response, permission: Permission): void {
+    let body: any;
+    const json = res.json.bind(res);
+    res.json = (payload: any) => {
+      body = payload;
+      return json(payload);
+    };
+
+    res.on('finish', () => {
+      const success = res.statusCode < 400 && body?.success !== false;
+
+      void this.auditService.record({
+        actorId: req.user?.id,
+        action: permission,
+        method: req.method,
+        path: `${req.baseUrl}${req.path}`,
+        params: {
+          params: req.params,
+          query: req.query,
+          body: req.body,
+        },
+        txSignature: body?.transaction || body?.data?.transactionId || body?.data?.txSignature,
+        success,
+        statusCode: res.statusCode,
+        error: success ? undefined : body?.error || body?.message,
+        ip: req.ip,
+      });
+    });
+  }
+}
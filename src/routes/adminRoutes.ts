@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { AdminController } from '@/controllers/AdminController';
+import { AuthMiddleware } from '@/middleware/auth';
+import { generalRateLimit } from '@/middleware/rateLimiter';
+import { validateQuery, auditQuerySchema } from '@/utils/validation';
+
+export const createAdminRoutes = (adminController: AdminController, authMiddleware: AuthMiddleware): Router => {
+  const router = Router();
+
+  // All admin routes require authentication
+  router.use(generalRateLimit);
+  router.use(authMiddleware.authenticate);
+
+  /**
+   * @route   GET /api/admin/audit
+   * @desc    Query the audit log of privileged calls
+   * @access  Private (audit:read)
+   * @query   { actorId?, action?, success?, from?, to?, page?, limit? }
+   */
+  router.get(
+    '/audit',
+    authMiddleware.requirePermission('audit:read'),
+    validateQuery(auditQuerySchema),
+    adminController.getAuditLogs
+  );
+
+  /**
+   * @route   GET /api/admin/runs/attention
+   * @desc    List runs whose chain transactions exhausted their retries
+   * @access  Private (platform:manage)
+   */
+  router.get(
+    '/runs/attention',
+    authMiddleware.requirePermission('platform:manage'),
+    adminController.getRunsNeedingAttention
+  );
+
+  /**
+   * @route   POST /api/admin/transactions/:transactionId/retry
+   * @desc    Requeue an abandoned chain transaction with a fresh retry budget
+   * @access  Private (platform:manage)
+   */
+  router.post(
+    '/transactions/:transactionId/retry',
+    authMiddleware.requirePermission('platform:manage'),
+    adminController.retryTransaction
+  );
+
+  return router;
+};
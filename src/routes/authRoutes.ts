@@ -1,19 +1,23 @@
 import { Router } from 'express';
 import { AuthController } from '@/controllers/AuthController';
+import { AuthMiddleware } from '@/middleware/auth';
+import { generalRateLimit } from '@/middleware/rateLimiter';
+import { validate, refreshTokenSchema, logoutSchema } from '@/utils/validation';
 
-export const createAuthRoutes = (authController: AuthController): Router => {
+export const createAuthRoutes = (authController: AuthController, authMiddleware: AuthMiddleware): Router => {
   const router = Router();
 
   // GET /auth/wallet/nonce - Get message to sign
-  router.get('/wallet/nonce', authController.getNonce);
+  router.get('/wallet/nonce', generalRateLimit, authController.getNonce);
 
   // POST /auth/wallet/verify - Verify wallet signature and authenticate
-  router.post('/wallet/verify', authController.verifyWallet);
-
-  return router;
-};
-
-
+  router.post('/wallet/verify', generalRateLimit, authController.verifyWallet);
 
+  // POST /auth/refresh - Rotate refresh token and issue a new access token
+  router.post('/refresh', generalRateLimit, validate(refreshTokenSchema), authController.refresh);
 
+  // POST /auth/logout - Revoke the current access token and refresh token
+  router.post('/logout', authMiddleware.authenticate, validate(logoutSchema), authController.logout);
 
+  return router;
+};
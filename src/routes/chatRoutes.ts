@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { ChatController } from '@/controllers/ChatController';
+import { AuthMiddleware } from '@/middleware/auth';
+import { generalRateLimit, chatRateLimit } from '@/middleware/rateLimiter';
+import { validate, validateQuery } from '@/utils/validation';
+import { sendMessageSchema, paginationSchema } from '@/utils/validation';
+
+/**
+ * Chat routes for a single run, mounted at /runs/:id/chat
+ */
+export const createChatRoutes = (chatController: ChatController, authMiddleware: AuthMiddleware): Router => {
+  const router = Router({ mergeParams: true });
+
+  // Apply general rate limiting to all routes
+  router.use(generalRateLimit);
+
+  // Public routes
+  router.get(
+    '/',
+    validateQuery(paginationSchema),
+    chatController.getMessages
+  );
+
+  // Protected routes (require authentication)
+  router.use(authMiddleware.authenticate);
+  router.use(authMiddleware.requireNotBanned);
+
+  router.post(
+    '/',
+    validate(sendMessageSchema),
+    chatRateLimit,
+    chatController.sendMessage
+  );
+
+  router.post(
+    '/:messageId/downvote',
+    chatRateLimit,
+    chatController.downvoteMessage
+  );
+
+  return router;
+};
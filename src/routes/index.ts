@@ -4,16 +4,23 @@ import { RunController } from '@/controllers/RunController';
 import { MarketController } from '@/controllers/MarketController';
 import { AuthController } from '@/controllers/AuthController';
 import { WaitlistController } from '@/controllers/WaitlistController';
+import { ChatController } from '@/controllers/ChatController';
+import { AdminController } from '@/controllers/AdminController';
+import { NotificationController } from '@/controllers/NotificationController';
+import { RoleController } from '@/controllers/RoleController';
 import { AuthMiddleware } from '@/middleware/auth';
 import { createUserRoutes } from './userRoutes';
 import { createRunRoutes } from './runRoutes';
+import { createChatRoutes } from './chatRoutes';
+import { createNotificationRoutes } from './notificationRoutes';
 import { createMarketRoutes } from './marketRoutes';
 import { createAuthRoutes } from './authRoutes';
-// Temporarily disabled due to IDL parsing issue
-// import solanaRoutes from './solanaRoutes';
+import { createSolanaRoutes } from './solanaRoutes';
 import driftPriceRoutes from './driftPriceRoutes';
-import driftTradingRoutes from './driftTradingRoutes';
+import { createDriftTradingRoutes } from './driftTradingRoutes';
 import { createWaitlistRoutes } from './waitlistRoutes';
+import { createAdminRoutes } from './adminRoutes';
+import { createRoleRoutes } from './roleRoutes';
 
 export const createRoutes = (
   userController: UserController,
@@ -21,6 +28,10 @@ export const createRoutes = (
   marketController: MarketController,
   authController: AuthController,
   waitlistController: WaitlistController,
+  chatController: ChatController,
+  adminController: AdminController,
+  notificationController: NotificationController,
+  roleController: RoleController,
   authMiddleware: AuthMiddleware
 ): Router => {
   const router = Router();
@@ -36,19 +47,24 @@ export const createRoutes = (
   });
 
   // API routes
-  router.use('/auth', createAuthRoutes(authController));
+  router.use('/auth', createAuthRoutes(authController, authMiddleware));
+  // Notifications are mounted before /users so "me" is not taken as a user ID
+  router.use('/users/me/notifications', createNotificationRoutes(notificationController, authMiddleware));
   router.use('/users', createUserRoutes(userController, authMiddleware));
+  // Chat is mounted before /runs so its public reads skip the run routes' auth
+  router.use('/runs/:id/chat', createChatRoutes(chatController, authMiddleware));
   router.use('/runs', createRunRoutes(runController, authMiddleware));
   router.use('/market', createMarketRoutes(marketController));
   router.use('/waitlist', createWaitlistRoutes(waitlistController));
+  router.use('/admin', createAdminRoutes(adminController, authMiddleware));
+  router.use('/roles', createRoleRoutes(roleController, authMiddleware));
   
-  // Solana routes - temporarily disabled due to IDL parsing issue
-  // TODO: Fix IDL compatibility and re-enable
-  // router.use('/solana', solanaRoutes);
+  // Solana routes (transactions are built manually, no IDL parsing)
+  router.use('/solana', createSolanaRoutes(authMiddleware));
   
   // Drift routes
   router.use('/prices', driftPriceRoutes);
-  router.use('/drift', driftTradingRoutes);
+  router.use('/drift', createDriftTradingRoutes(authMiddleware));
 
   // 404 handler
   router.use('*', (req, res) => {
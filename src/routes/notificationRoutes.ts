@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { NotificationController } from '@/controllers/NotificationController';
+import { AuthMiddleware } from '@/middleware/auth';
+import { generalRateLimit } from '@/middleware/rateLimiter';
+import { validateQuery, notificationQuerySchema } from '@/utils/validation';
+
+/**
+ * Notification routes for the authenticated user, mounted at /users/me/notifications
+ */
+export const createNotificationRoutes = (notificationController: NotificationController, authMiddleware: AuthMiddleware): Router => {
+  const router = Router();
+
+  // Apply general rate limiting to all routes
+  router.use(generalRateLimit);
+
+  // All notification routes require authentication
+  router.use(authMiddleware.authenticate);
+
+  router.get(
+    '/',
+    validateQuery(notificationQuerySchema),
+    notificationController.getNotifications
+  );
+
+  router.put(
+    '/read-all',
+    notificationController.markAllAsRead
+  );
+
+  router.put(
+    '/:notificationId/read',
+    notificationController.markAsRead
+  );
+
+  return router;
+};
@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { RoleController } from '@/controllers/RoleController';
+import { AuthMiddleware } from '@/middleware/auth';
+import { generalRateLimit, strictRateLimit } from '@/middleware/rateLimiter';
+import { validate, updateRolePermissionsSchema } from '@/utils/validation';
+
+export const createRoleRoutes = (roleController: RoleController, authMiddleware: AuthMiddleware): Router => {
+  const router = Router();
+
+  // All role routes require authentication
+  router.use(generalRateLimit);
+  router.use(authMiddleware.authenticate);
+
+  /**
+   * @route   GET /api/roles
+   * @desc    List the permissions granted by every role
+   * @access  Private (users:roles)
+   */
+  router.get(
+    '/',
+    authMiddleware.requirePermission('users:roles'),
+    roleController.getRolePermissions
+  );
+
+  /**
+   * @route   PUT /api/roles/:role/permissions
+   * @desc    Replace the permissions granted by a role
+   * @access  Private (users:roles)
+   * @body    { permissions: string[] }
+   */
+  router.put(
+    '/:role/permissions',
+    authMiddleware.requirePermission('users:roles'),
+    validate(updateRolePermissionsSchema),
+    strictRateLimit,
+    roleController.updateRolePermissions
+  );
+
+  return router;
+};
@@ -38,6 +38,11 @@ export const createRunRoutes = (runController: RunController, authMiddleware: Au
     runController.getRunTrades
   );
 
+  router.get(
+    '/:id/transactions',
+    runController.getRunTransactions
+  );
+
   router.get(
     '/:id/voting-round',
     runController.getCurrentVotingRound
@@ -73,21 +78,28 @@ export const createRunRoutes = (runController: RunController, authMiddleware: Au
     runController.castVote
   );
 
-  // Admin routes (require admin access)
-  router.use(authMiddleware.requireAdmin);
-
+  // Operator routes (require run management permissions)
   router.post(
     '/:id/start',
+    authMiddleware.requirePermission('runs:start'),
     strictRateLimit,
     runController.startRun
   );
 
   router.post(
     '/:id/end',
+    authMiddleware.requirePermission('runs:end'),
     strictRateLimit,
     runController.endRun
   );
 
+  router.post(
+    '/:id/cancel',
+    authMiddleware.requirePermission('runs:cancel'),
+    strictRateLimit,
+    runController.cancelRun
+  );
+
   return router;
 };
 
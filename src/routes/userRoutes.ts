@@ -3,7 +3,7 @@ import { UserController } from '@/controllers/UserController';
 import { AuthMiddleware } from '@/middleware/auth';
 import { generalRateLimit, strictRateLimit } from '@/middleware/rateLimiter';
 import { validate, validateQuery } from '@/utils/validation';
-import { createUserSchema, updateUserSchema, paginationSchema } from '@/utils/validation';
+import { createUserSchema, updateUserSchema, updateUserRoleSchema, paginationSchema } from '@/utils/validation';
 
 export const createUserRoutes = (userController: UserController, authMiddleware: AuthMiddleware): Router => {
   const router = Router();
@@ -58,21 +58,30 @@ export const createUserRoutes = (userController: UserController, authMiddleware:
     userController.getUserLevel
   );
 
-  // Admin routes (require admin access)
-  router.use(authMiddleware.requireAdmin);
-
+  // Moderation routes (require ban permission)
   router.post(
     '/:id/ban',
+    authMiddleware.requirePermission('users:ban'),
     strictRateLimit,
     userController.banUser
   );
 
   router.post(
     '/:id/unban',
+    authMiddleware.requirePermission('users:ban'),
     strictRateLimit,
     userController.unbanUser
   );
 
+  // Admin routes (require role management permission)
+  router.put(
+    '/:id/role',
+    authMiddleware.requirePermission('users:roles'),
+    validate(updateUserRoleSchema),
+    strictRateLimit,
+    userController.updateUserRole
+  );
+
   return router;
 };
 
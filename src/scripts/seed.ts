@@ -1,6 +1,8 @@
 import { PrismaClient } from '@prisma/client';
 import { config } from '@/utils/config';
 import logger from '@/utils/logger';
+import { BadgeService } from '@/services/BadgeService';
+import { UserService } from '@/services/UserService';
 
 const prisma = new PrismaClient();
 
@@ -8,91 +10,10 @@ async function main() {
   logger.info('🌱 Starting database seeding...');
 
   try {
-    // Create badges
-    const badges = await Promise.all([
-      prisma.badge.upsert({
-        where: { name: 'First Steps' },
-        update: {},
-        create: {
-          name: 'First Steps',
-          emoji: '👶',
-          description: 'Completed your first run',
-          xpReward: 50,
-        },
-      }),
-      prisma.badge.upsert({
-        where: { name: 'Most Correct Votes' },
-        update: {},
-        create: {
-          name: 'Most Correct Votes',
-          emoji: '🎯',
-          description: 'Won most prediction votes in a run',
-          xpReward: 100,
-        },
-      }),
-      prisma.badge.upsert({
-        where: { name: 'Perfect Attendance' },
-        update: {},
-        create: {
-          name: 'Perfect Attendance',
-          emoji: '🗳️',
-          description: 'Voted in all rounds of a run',
-          xpReward: 75,
-        },
-      }),
-      prisma.badge.upsert({
-        where: { name: 'Lucky Winner' },
-        update: {},
-        create: {
-          name: 'Lucky Winner',
-          emoji: '🍀',
-          description: 'Won 5 runs in a row',
-          xpReward: 200,
-        },
-      }),
-      prisma.badge.upsert({
-        where: { name: 'Diamond Hands' },
-        update: {},
-        create: {
-          name: 'Diamond Hands',
-          emoji: '💎',
-          description: 'Maintained 80%+ win rate over 10 runs',
-          xpReward: 150,
-        },
-      }),
-      prisma.badge.upsert({
-        where: { name: 'Community Helper' },
-        update: {},
-        create: {
-          name: 'Community Helper',
-          emoji: '🤝',
-          description: 'Helped 10+ users in chat',
-          xpReward: 100,
-        },
-      }),
-      prisma.badge.upsert({
-        where: { name: 'Veteran Trader' },
-        update: {},
-        create: {
-          name: 'Veteran Trader',
-          emoji: '🏆',
-          description: 'Completed 50+ runs',
-          xpReward: 300,
-        },
-      }),
-      prisma.badge.upsert({
-        where: { name: 'Just Vibing' },
-        update: {},
-        create: {
-          name: 'Just Vibing',
-          emoji: '😎',
-          description: 'Participated but neutral performance',
-          xpReward: 25,
-        },
-      }),
-    ]);
+    // Sync the badge catalog
+    const badges = await new BadgeService(prisma, new UserService(prisma)).syncCatalog();
 
-    logger.info(`✅ Created ${badges.length} badges`);
+    logger.info(`✅ Synced ${badges.length} badges`);
 
     // Create sample users
     const users = await Promise.all([
@@ -335,7 +256,7 @@ async function main() {
 
     logger.info('🎉 Database seeding completed successfully!');
     logger.info('📊 Summary:');
-    logger.info(`   - ${badges.length} badges created`);
+    logger.info(`   - ${badges.length} badges synced`);
     logger.info(`   - ${users.length} users created`);
     logger.info(`   - ${runs.length} runs created`);
     logger.info(`   - ${priceData.length} price records created`);
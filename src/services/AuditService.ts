@@ -0,0 +1,118 @@
+import { PrismaClient, Prisma, AuditLog } from '@prisma/client';
+import logger from '@/utils/logger';
+
+// Request fields that must never be written to the audit log
+const REDACTED_FIELDS = ['signature', 'refreshToken', 'token', 'privateKey', 'secretKey'];
+
+export interface AuditEntry {
+  actorId?: string;
+  action: string;
+  method: string;
+  path: string;
+  params?: Record<string, any>;
+  txSignature?: string;
+  success: boolean;
+  statusCode: number;
+  error?: string;
+  ip?: string;
+}
+
+export interface AuditQuery {
+  actorId?: string;
+  action?: string;
+  success?: boolean;
+  from?: Date;
+  to?: Date;
+}
+
+export class AuditService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Record a privileged call
+   * Failures are logged rather than thrown so auditing never breaks the request
+   */
+  async record(entry: AuditEntry): Promise<AuditLog | null> {
+    try {
+      const auditLog = await this.prisma.auditLog.create({
+        data: {
+          actorId: entry.actorId,
+          action: entry.action,
+          method: entry.method,
+          path: entry.path,
+          params: entry.params ? (this.redact(entry.params) as Prisma.InputJsonObject) : undefined,
+          txSignature: entry.txSignature,
+          success: entry.success,
+          statusCode: entry.statusCode,
+          error: entry.error,
+          ip: entry.ip,
+        },
+      });
+
+      logger.info(`Audit: ${entry.action} ${entry.method} ${entry.path} by ${entry.actorId || 'anonymous'} -> ${entry.statusCode}`);
+      return auditLog;
+    } catch (error) {
+      logger.error('Error recording audit log:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a page of audit log entries, newest first
+   */
+  async getAuditLogs(query: AuditQuery, page: number = 1, limit: number = 20): Promise<{ logs: AuditLog[]; total: number }> {
+    try {
+      const skip = (page - 1) * limit;
+      const where: Prisma.AuditLogWhereInput = {
+        actorId: query.actorId,
+        action: query.action,
+        success: query.success,
+        createdAt: query.from || query.to ? { gte: query.from, lte: query.to } : undefined,
+      };
+
+      const [logs, total] = await Promise.all([
+        this.prisma.auditLog.findMany({
+          where,
+          include: {
+            actor: {
+              select: {
+                id: true,
+                username: true,
+                walletAddress: true,
+                role: true,
+              },
+            },
+          },
+          orderBy: {
+            createdAt: 'desc',
+          },
+          skip,
+          take: limit,
+        }),
+        this.prisma.auditLog.count({ where }),
+      ]);
+
+      return { logs, total };
+    } catch (error) {
+      logger.error('Error fetching audit logs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Strip credentials from request parameters before they are stored
+   */
+  private redact(params: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(params).map(([key, value]) => {
+        if (REDACTED_FIELDS.includes(key)) {
+          return [key, '[REDACTED]'];
+        }
+        if (value && typeof value === 'object' && !Array.isArray(value)) {
+          return [key, this.redact(value)];
+        }
+        return [key, value];
+      })
+    );
+  }
+}
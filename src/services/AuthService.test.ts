@@ -0,0 +1,231 @@
+import { PrismaClient } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import { AuthService } from './AuthService';
+import { config } from '@/utils/config';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const WALLET = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin';
+const OTHER_WALLET = '7Np41oeYqPefeNQEHSv1UDhYrehxin3NStELsSKCT4K2';
+
+interface StoredNonce {
+  id: string;
+  walletAddress: string;
+  nonce: string;
+  message: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+}
+
+interface StoredRefreshToken {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  familyId: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+}
+
+const USER = {
+  id: 'user-1',
+  walletAddress: WALLET,
+  username: 'trader',
+  isBanned: false,
+  banExpiresAt: null,
+  role: 'USER',
+};
+
+// In-memory stand-in for the auth tables
+const createPrisma = () => {
+  const nonces = new Map<string, StoredNonce>();
+  const refreshTokens: StoredRefreshToken[] = [];
+  const revokedJtis = new Set<string>();
+
+  const prisma = {
+    authNonce: {
+      create: jest.fn(async ({ data }: any) => {
+        const row = { id: `nonce-${nonces.size + 1}`, usedAt: null, ...data };
+        nonces.set(row.nonce, row);
+        return row;
+      }),
+      findUnique: jest.fn(async ({ where }: any) => nonces.get(where.nonce) ?? null),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const row = [...nonces.values()].find(n => n.id === where.id && (where.usedAt !== null || n.usedAt === null));
+        if (!row) {
+          return { count: 0 };
+        }
+        Object.assign(row, data);
+        return { count: 1 };
+      }),
+    },
+    refreshToken: {
+      create: jest.fn(async ({ data }: any) => {
+        const row = { id: `refresh-${refreshTokens.length + 1}`, revokedAt: null, ...data };
+        refreshTokens.push(row);
+        return row;
+      }),
+      findUnique: jest.fn(async ({ where }: any) => {
+        const row = refreshTokens.find(t => t.tokenHash === where.tokenHash);
+        return row ? { ...row, user: USER } : null;
+      }),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const rows = refreshTokens.filter(t =>
+          (where.id === undefined || t.id === where.id) &&
+          (where.familyId === undefined || t.familyId === where.familyId) &&
+          t.revokedAt === null
+        );
+        rows.forEach(row => Object.assign(row, data));
+        return { count: rows.length };
+      }),
+    },
+    revokedToken: {
+      findUnique: jest.fn(async ({ where }: any) => (revokedJtis.has(where.jti) ? { jti: where.jti } : null)),
+      upsert: jest.fn(async ({ create }: any) => {
+        revokedJtis.add(create.jti);
+        return create;
+      }),
+      deleteMany: jest.fn(async () => ({ count: 0 })),
+    },
+    user: {
+      findUnique: jest.fn(async ({ where }: any) => (where.id === USER.id ? USER : null)),
+    },
+  };
+
+  return { prisma, nonces, refreshTokens };
+};
+
+describe('AuthService', () => {
+  describe('sign-in nonces', () => {
+    it('accepts a signed challenge once and rejects its replay', async () => {
+      const { prisma } = createPrisma();
+      const authService = new AuthService(prisma as unknown as PrismaClient);
+
+      const { message, nonce } = await authService.issueNonce(WALLET);
+
+      await expect(authService.verifySignInMessage(WALLET, message)).resolves.toMatchObject({ nonce, address: WALLET });
+      await expect(authService.verifySignInMessage(WALLET, message)).rejects.toThrow('Sign-in message has already been used');
+    });
+
+    it('rejects a nonce issued to another wallet', async () => {
+      const { prisma } = createPrisma();
+      const authService = new AuthService(prisma as unknown as PrismaClient);
+
+      const { message } = await authService.issueNonce(WALLET);
+      const forged = message.replace(WALLET, OTHER_WALLET);
+
+      await expect(authService.verifySignInMessage(OTHER_WALLET, forged)).rejects.toThrow('Unknown sign-in nonce');
+    });
+
+    it('rejects an expired nonce', async () => {
+      const { prisma, nonces } = createPrisma();
+      const authService = new AuthService(prisma as unknown as PrismaClient);
+
+      const { message, nonce } = await authService.issueNonce(WALLET);
+      nonces.get(nonce)!.expiresAt = new Date(Date.now() - 1000);
+
+      await expect(authService.verifySignInMessage(WALLET, message)).rejects.toThrow('Sign-in message has expired');
+    });
+
+    it('lets only one of two concurrent sign-ins consume a nonce', async () => {
+      const { prisma } = createPrisma();
+      const authService = new AuthService(prisma as unknown as PrismaClient);
+
+      const { message } = await authService.issueNonce(WALLET);
+      const results = await Promise.allSettled([
+        authService.verifySignInMessage(WALLET, message),
+        authService.verifySignInMessage(WALLET, message),
+      ]);
+
+      expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+      expect(results.filter(r => r.status === 'rejected')).toHaveLength(1);
+    });
+
+    it('rejects a message whose fields were not issued by this application', async () => {
+      const { prisma } = createPrisma();
+      const authService = new AuthService(prisma as unknown as PrismaClient);
+
+      const { message, fields } = await authService.issueNonce(WALLET);
+      const phished = message.replace(fields.domain, 'evil.example');
+
+      await expect(authService.verifySignInMessage(WALLET, phished)).rejects.toThrow('not issued for this application');
+      expect(prisma.authNonce.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh tokens', () => {
+    it('rotates a refresh token within its family', async () => {
+      const { prisma, refreshTokens } = createPrisma();
+      const authService = new AuthService(prisma as unknown as PrismaClient);
+
+      const issued = await authService.issueTokens(USER);
+      const { tokens } = await authService.refreshTokens(issued.refreshToken);
+
+      expect(tokens.refreshToken).not.toBe(issued.refreshToken);
+      expect(refreshTokens).toHaveLength(2);
+      expect(refreshTokens[0].revokedAt).not.toBeNull();
+      expect(refreshTokens[1].revokedAt).toBeNull();
+      expect(refreshTokens[1].familyId).toBe(refreshTokens[0].familyId);
+    });
+
+    it('revokes the whole family when a rotated token is reused', async () => {
+      const { prisma, refreshTokens } = createPrisma();
+      const authService = new AuthService(prisma as unknown as PrismaClient);
+
+      const issued = await authService.issueTokens(USER);
+      const { tokens } = await authService.refreshTokens(issued.refreshToken);
+
+      await expect(authService.refreshTokens(issued.refreshToken)).rejects.toThrow('Refresh token has been revoked');
+      expect(refreshTokens.every(t => t.revokedAt !== null)).toBe(true);
+      await expect(authService.refreshTokens(tokens.refreshToken)).rejects.toThrow('Refresh token has been revoked');
+    });
+
+    it('keeps other sign-ins alive when a family is revoked', async () => {
+      const { prisma, refreshTokens } = createPrisma();
+      const authService = new AuthService(prisma as unknown as PrismaClient);
+
+      const stolen = await authService.issueTokens(USER);
+      const otherDevice = await authService.issueTokens(USER);
+      await authService.refreshTokens(stolen.refreshToken);
+      await expect(authService.refreshTokens(stolen.refreshToken)).rejects.toThrow();
+
+      await expect(authService.refreshTokens(otherDevice.refreshToken)).resolves.toBeDefined();
+      expect(refreshTokens.filter(t => t.revokedAt === null)).toHaveLength(1);
+    });
+
+    it('rejects an unknown refresh token', async () => {
+      const { prisma } = createPrisma();
+      const authService = new AuthService(prisma as unknown as PrismaClient);
+
+      await expect(authService.refreshTokens('ab'.repeat(32))).rejects.toThrow('Invalid refresh token');
+    });
+  });
+
+  describe('access tokens', () => {
+    it('rejects an access token revoked on logout', async () => {
+      const { prisma } = createPrisma();
+      const authService = new AuthService(prisma as unknown as PrismaClient);
+
+      const { token } = await authService.issueTokens(USER);
+      const payload = await authService.verifyAccessToken(token);
+      await authService.logout(payload);
+
+      await expect(authService.verifyAccessToken(token)).rejects.toThrow('Token has been revoked');
+    });
+
+    it('accepts a legacy access token without a token ID until it expires', async () => {
+      const { prisma } = createPrisma();
+      const authService = new AuthService(prisma as unknown as PrismaClient);
+
+      const claims = { id: USER.id, userId: USER.id, walletAddress: USER.walletAddress, username: USER.username };
+      const legacy = jwt.sign(claims, config.jwtSecret, { expiresIn: '7d' });
+      const expired = jwt.sign({ ...claims, exp: Math.floor(Date.now() / 1000) - 60 }, config.jwtSecret);
+
+      await expect(authService.verifyAccessToken(legacy)).resolves.toMatchObject({ userId: USER.id });
+      await expect(authService.verifyAccessToken(expired)).rejects.toThrow('Invalid token');
+      expect(prisma.revokedToken.findUnique).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,420 @@
+import { PrismaClient, User } from '@prisma/client';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { AppError, JwtPayload, Role } from '@/types';
+import { config, siwsConfig } from '@/utils/config';
+import { SiwsMessage, formatSiwsMessage, parseSiwsMessage } from '@/utils/siws';
+import logger from '@/utils/logger';
+
+// Tolerated clock drift between client and server when checking Issued At
+const MAX_CLOCK_SKEW_MS = 60 * 1000;
+
+export interface WalletChallenge {
+  message: string;
+  fields: SiwsMessage;
+  nonce: string;
+  timestamp: number;
+  expiresAt: Date;
+}
+
+export interface AuthTokens {
+  token: string; // access token
+  expiresAt: Date;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+export class AuthService {
+  private nonceCleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Periodically purge expired and used sign-in nonces
+   * Nonces are issued to unauthenticated callers, so rows must not accumulate
+   */
+  startNonceCleanup() {
+    if (this.nonceCleanupInterval) {
+      return;
+    }
+
+    this.nonceCleanupInterval = setInterval(() => {
+      this.purgeNonces();
+    }, config.authNonceTtlSeconds * 1000);
+  }
+
+  /**
+   * Stop purging sign-in nonces
+   */
+  stopNonceCleanup() {
+    if (this.nonceCleanupInterval) {
+      clearInterval(this.nonceCleanupInterval);
+      this.nonceCleanupInterval = null;
+    }
+  }
+
+  /**
+   * Delete every expired or used sign-in nonce
+   * @returns Number of nonces deleted
+   */
+  async purgeNonces(): Promise<number> {
+    try {
+      const { count } = await this.prisma.authNonce.deleteMany({
+        where: {
+          OR: [
+            { expiresAt: { lt: new Date() } },
+            { usedAt: { not: null } },
+          ],
+        },
+      });
+
+      if (count > 0) {
+        logger.info(`Purged ${count} expired or used auth nonces`);
+      }
+      return count;
+    } catch (error) {
+      logger.error('Error purging auth nonces:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Issue a single-use SIWS sign-in challenge for a wallet
+   */
+  async issueNonce(walletAddress: string): Promise<WalletChallenge> {
+    try {
+      const nonce = crypto.randomBytes(16).toString('hex');
+      const timestamp = Date.now();
+      const expiresAt = new Date(timestamp + config.authNonceTtlSeconds * 1000);
+
+      const fields: SiwsMessage = {
+        domain: siwsConfig.domain,
+        address: walletAddress,
+        statement: siwsConfig.statement,
+        uri: siwsConfig.uri,
+        version: '1',
+        chainId: siwsConfig.chainId,
+        nonce,
+        issuedAt: new Date(timestamp).toISOString(),
+        expirationTime: expiresAt.toISOString(),
+      };
+      const message = formatSiwsMessage(fields);
+
+      await this.prisma.authNonce.create({
+        data: {
+          walletAddress,
+          nonce,
+          message,
+          expiresAt,
+        },
+      });
+
+      return { message, fields, nonce, timestamp, expiresAt };
+    } catch (error) {
+      logger.error('Error issuing auth nonce:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate a signed SIWS message against our config and consume its nonce
+   * The signature itself must already have been verified by the caller
+   */
+  async verifySignInMessage(walletAddress: string, message: string): Promise<SiwsMessage> {
+    try {
+      const fields = parseSiwsMessage(message);
+      if (!fields) {
+        throw new AppError('Malformed sign-in message', 401);
+      }
+
+      if (fields.address !== walletAddress) {
+        throw new AppError('Sign-in message address does not match wallet', 401);
+      }
+
+      if (
+        fields.domain !== siwsConfig.domain ||
+        fields.uri !== siwsConfig.uri ||
+        fields.chainId !== siwsConfig.chainId ||
+        fields.version !== '1' ||
+        (fields.statement !== undefined && fields.statement !== siwsConfig.statement)
+      ) {
+        throw new AppError('Sign-in message was not issued for this application', 401);
+      }
+
+      const now = Date.now();
+      const issuedAt = Date.parse(fields.issuedAt);
+      if (isNaN(issuedAt) || issuedAt > now + MAX_CLOCK_SKEW_MS || issuedAt < now - config.authNonceTtlSeconds * 1000) {
+        throw new AppError('Sign-in message timestamp is stale', 401);
+      }
+
+      if (fields.expirationTime !== undefined) {
+        const expiresAt = Date.parse(fields.expirationTime);
+        if (isNaN(expiresAt) || expiresAt <= now) {
+          throw new AppError('Sign-in message has expired, request a new nonce', 401);
+        }
+      }
+
+      await this.consumeNonce(walletAddress, fields.nonce);
+      return fields;
+    } catch (error) {
+      logger.error('Error verifying sign-in message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a short-lived access token and a refresh token for a user
+   * @param familyId - Rotation family to continue; a new sign-in starts a new family
+   */
+  async issueTokens(user: Pick<User, 'id' | 'walletAddress' | 'username'>, familyId?: string): Promise<AuthTokens> {
+    try {
+      const payload = {
+        id: user.id,
+        userId: user.id,
+        walletAddress: user.walletAddress,
+        username: user.username,
+      };
+
+      const token = jwt.sign(payload, config.jwtSecret, {
+        expiresIn: config.jwtExpiresIn as jwt.SignOptions['expiresIn'],
+        jwtid: crypto.randomUUID(),
+      });
+      const { exp } = jwt.decode(token) as JwtPayload;
+
+      const refreshToken = crypto.randomBytes(32).toString('hex');
+      const refreshTokenExpiresAt = new Date(Date.now() + config.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+
+      await this.prisma.refreshToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: this.hashToken(refreshToken),
+          familyId: familyId || crypto.randomUUID(),
+          expiresAt: refreshTokenExpiresAt,
+        },
+      });
+
+      logger.info(`Auth tokens issued for user ${user.id}`);
+      return {
+        token,
+        expiresAt: new Date(exp! * 1000),
+        refreshToken,
+        refreshTokenExpiresAt,
+      };
+    } catch (error) {
+      logger.error('Error issuing auth tokens:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair, revoking the old refresh token
+   * Presenting an already-rotated token revokes its whole family (likely theft)
+   */
+  async refreshTokens(refreshToken: string): Promise<{ user: User; tokens: AuthTokens }> {
+    try {
+      const stored = await this.prisma.refreshToken.findUnique({
+        where: { tokenHash: this.hashToken(refreshToken) },
+        include: { user: true },
+      });
+
+      if (!stored) {
+        throw new AppError('Invalid refresh token', 401);
+      }
+
+      if (stored.revokedAt) {
+        await this.revokeFamily(stored.familyId);
+        logger.warn(`Refresh token reuse detected for user ${stored.userId}, session revoked`);
+        throw new AppError('Refresh token has been revoked', 401);
+      }
+
+      if (stored.expiresAt <= new Date()) {
+        throw new AppError('Refresh token has expired', 401);
+      }
+
+      const { user } = stored;
+      if (user.isBanned && (!user.banExpiresAt || user.banExpiresAt > new Date())) {
+        await this.revokeFamily(stored.familyId);
+        throw new AppError('User is banned', 403);
+      }
+
+      // Rotate only if still unrevoked so concurrent refreshes cannot both succeed
+      const { count } = await this.prisma.refreshToken.updateMany({
+        where: {
+          id: stored.id,
+          revokedAt: null,
+        },
+        data: {
+          revokedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        await this.revokeFamily(stored.familyId);
+        throw new AppError('Refresh token has been revoked', 401);
+      }
+
+      const tokens = await this.issueTokens(user, stored.familyId);
+      return { user, tokens };
+    } catch (error) {
+      logger.error('Error refreshing auth tokens:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * End a session: revoke the access token and, if given, its refresh token family
+   */
+  async logout(payload: JwtPayload, refreshToken?: string): Promise<void> {
+    try {
+      if (payload.jti && payload.exp) {
+        await this.prisma.revokedToken.upsert({
+          where: { jti: payload.jti },
+          update: {},
+          create: {
+            jti: payload.jti,
+            userId: payload.userId,
+            expiresAt: new Date(payload.exp * 1000),
+          },
+        });
+      }
+
+      if (refreshToken) {
+        const stored = await this.prisma.refreshToken.findUnique({
+          where: { tokenHash: this.hashToken(refreshToken) },
+        });
+
+        if (stored && stored.userId === payload.userId) {
+          await this.revokeFamily(stored.familyId);
+        }
+      }
+
+      // Revocation entries are only needed until the access token would expire anyway
+      await this.prisma.revokedToken.deleteMany({
+        where: { expiresAt: { lt: new Date() } },
+      });
+
+      logger.info(`User logged out: ${payload.userId}`);
+    } catch (error) {
+      logger.error('Error logging out:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Verify an access token and load the identity it belongs to
+   * Throws if the token is invalid or revoked, or the user is missing or banned
+   */
+  async verifyAccessToken(token: string): Promise<JwtPayload> {
+    let decoded: JwtPayload;
+    try {
+      decoded = jwt.verify(token, config.jwtSecret) as JwtPayload;
+    } catch (jwtError) {
+      logger.warn('JWT verification failed:', jwtError);
+      throw new AppError('Invalid token', 401);
+    }
+
+    // Access tokens carry an ID so they can be revoked on logout; tokens issued before
+    // revocation existed have none and stay valid until they expire
+    if (decoded.jti && await this.isTokenRevoked(decoded.jti)) {
+      throw new AppError('Token has been revoked', 401);
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: decoded.userId },
+      select: {
+        id: true,
+        walletAddress: true,
+        username: true,
+        isBanned: true,
+        banExpiresAt: true,
+        role: true,
+      },
+    });
+
+    if (!user) {
+      throw new AppError('User not found', 401);
+    }
+
+    // A ban without expiry is permanent
+    if (user.isBanned && (!user.banExpiresAt || user.banExpiresAt > new Date())) {
+      throw new AppError('User is banned', 403);
+    }
+
+    return {
+      id: user.id,
+      userId: user.id,
+      walletAddress: user.walletAddress,
+      username: user.username,
+      isBanned: false,
+      banExpiresAt: user.banExpiresAt || undefined,
+      role: user.role as Role,
+      jti: decoded.jti,
+      exp: decoded.exp,
+    };
+  }
+
+  /**
+   * Check whether an access token has been revoked
+   */
+  async isTokenRevoked(jti: string): Promise<boolean> {
+    const revoked = await this.prisma.revokedToken.findUnique({
+      where: { jti },
+    });
+    return revoked !== null;
+  }
+
+  /**
+   * Revoke every refresh token rotated from the same sign-in
+   */
+  private async revokeFamily(familyId: string): Promise<void> {
+    await this.prisma.refreshToken.updateMany({
+      where: {
+        familyId,
+        revokedAt: null,
+      },
+      data: {
+        revokedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Hash a refresh token for storage; only the client holds the raw value
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Consume an outstanding nonce issued to a wallet
+   * Throws if the nonce was not issued to this wallet, has expired or was already used
+   */
+  private async consumeNonce(walletAddress: string, nonce: string): Promise<void> {
+    const challenge = await this.prisma.authNonce.findUnique({
+      where: { nonce },
+    });
+
+    if (!challenge || challenge.walletAddress !== walletAddress) {
+      throw new AppError('Unknown sign-in nonce, request a new nonce', 401);
+    }
+
+    if (challenge.expiresAt <= new Date()) {
+      throw new AppError('Sign-in message has expired, request a new nonce', 401);
+    }
+
+    // Mark used only if still unused so concurrent replays cannot both succeed
+    const { count } = await this.prisma.authNonce.updateMany({
+      where: {
+        id: challenge.id,
+        usedAt: null,
+      },
+      data: {
+        usedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      throw new AppError('Sign-in message has already been used', 401);
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { PrismaClient, Badge, UserBadge, NotificationType } from '@prisma/client';
+import { AppError } from '@/types';
+import { BADGE_CRITERIA, checkNewBadges } from '@/utils/xp';
+import logger from '@/utils/logger';
+import { UserService } from './UserService';
+import { NotificationService } from './NotificationService';
+
+export class BadgeService {
+  constructor(
+    private prisma: PrismaClient,
+    private userService: UserService,
+    private notificationService?: NotificationService
+  ) {}
+
+  /**
+   * Sync the badge catalog (BADGE_CRITERIA) into the Badge table
+   * Badges are keyed by name, so existing rows keep their IDs
+   */
+  async syncCatalog(): Promise<Badge[]> {
+    try {
+      const badges = await this.prisma.$transaction(
+        BADGE_CRITERIA.map(({ name, emoji, description, xpReward }) =>
+          this.prisma.badge.upsert({
+            where: { name },
+            update: { emoji, description, xpReward },
+            create: { name, emoji, description, xpReward },
+          })
+        )
+      );
+
+      logger.info(`Badge catalog synced: ${badges.length} badges`);
+      return badges;
+    } catch (error) {
+      logger.error('Error syncing badge catalog:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Award badge to user and credit its XP reward
+   */
+  async awardBadge(userId: string, badgeId: string): Promise<UserBadge & { badge: Badge }> {
+    try {
+      // Check if user already has this badge
+      const existingBadge = await this.prisma.userBadge.findUnique({
+        where: {
+          userId_badgeId: {
+            userId,
+            badgeId,
+          },
+        },
+      });
+
+      if (existingBadge) {
+        throw new AppError('User already has this badge', 409);
+      }
+
+      const userBadge = await this.prisma.userBadge.create({
+        data: {
+          userId,
+          badgeId,
+        },
+        include: {
+          badge: true,
+        },
+      });
+
+      if (userBadge.badge.xpReward > 0) {
+        await this.userService.addXp(userId, userBadge.badge.xpReward, `Badge earned: ${userBadge.badge.name}`);
+      }
+
+      await this.notificationService?.notify(userId, {
+        type: NotificationType.BADGE_EARNED,
+        title: `Badge earned: ${userBadge.badge.emoji} ${userBadge.badge.name}`,
+        message: userBadge.badge.xpReward > 0
+          ? `${userBadge.badge.description} (+${userBadge.badge.xpReward} XP)`
+          : userBadge.badge.description,
+        data: { badgeId: userBadge.badge.id, name: userBadge.badge.name },
+      });
+
+      logger.info(`Badge awarded to user ${userId}: ${userBadge.badge.name}`);
+      return userBadge;
+    } catch (error) {
+      logger.error('Error awarding badge:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check and award new badges
+   */
+  async checkAndAwardBadges(userId: string): Promise<Array<UserBadge & { badge: Badge }>> {
+    try {
+      const stats = await this.userService.getUserStats(userId);
+      const currentBadgeNames = stats.badges.map(ub => ub.badge?.name || '');
+
+      const newBadges = checkNewBadges(stats, currentBadgeNames);
+      if (newBadges.length === 0) {
+        return [];
+      }
+
+      // Resolve catalog names to Badge rows
+      const catalog = await this.prisma.badge.findMany({
+        where: { name: { in: newBadges.map(b => b.name) } },
+      });
+      const badgeIds = new Map(catalog.map(b => [b.name, b.id]));
+
+      const awardedBadges: Array<UserBadge & { badge: Badge }> = [];
+
+      for (const badge of newBadges) {
+        const badgeId = badgeIds.get(badge.name);
+        if (!badgeId) {
+          logger.warn(`Badge ${badge.name} is missing from the catalog, skipping`);
+          continue;
+        }
+
+        try {
+          const userBadge = await this.awardBadge(userId, badgeId);
+          awardedBadges.push(userBadge);
+        } catch (error) {
+          logger.warn(`Failed to award badge ${badge.name} to user ${userId}:`, error);
+        }
+      }
+
+      return awardedBadges;
+    } catch (error) {
+      logger.error('Error checking and awarding badges:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { Prisma, PrismaClient, RunStatus } from '@prisma/client';
+import { ChatService } from './ChatService';
+import { WebSocketService } from './WebSocketService';
+import { config } from '@/utils/config';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const RUN_ID = 'run-1';
+const AUTHOR_ID = 'author';
+
+// In-memory stand-in for the run, participant and chat tables
+const createPrisma = (status: RunStatus = RunStatus.ACTIVE) => {
+  const participants = new Set([AUTHOR_ID]);
+  const downvotes = new Set<string>();
+  const message = { id: 'message-1', runId: RUN_ID, userId: AUTHOR_ID, message: 'to the moon', downvotes: 0, isDeleted: false };
+
+  const pick = (select: Record<string, boolean>) =>
+    Object.fromEntries(Object.keys(select).map(key => [key, (message as any)[key]]));
+
+  const prisma: any = {
+    run: {
+      findUnique: jest.fn(async () => ({ id: RUN_ID, status })),
+    },
+    runParticipant: {
+      findUnique: jest.fn(async ({ where }: any) =>
+        participants.has(where.runId_userId.userId) ? { runId: RUN_ID, userId: where.runId_userId.userId } : null
+      ),
+    },
+    chatMessage: {
+      create: jest.fn(async ({ data }: any) => ({ id: 'message-2', downvotes: 0, isDeleted: false, ...data })),
+      findFirst: jest.fn(async ({ where }: any) => (where.id === message.id ? { ...message } : null)),
+      update: jest.fn(async ({ data, select }: any) => {
+        if (data.downvotes?.increment) {
+          message.downvotes += data.downvotes.increment;
+        }
+        if (data.isDeleted !== undefined) {
+          message.isDeleted = data.isDeleted;
+        }
+        return select ? pick(select) : { ...message };
+      }),
+    },
+    chatDownvote: {
+      findUnique: jest.fn(async ({ where }: any) => (downvotes.has(where.messageId_userId.userId) ? {} : null)),
+      create: jest.fn(async ({ data }: any) => {
+        if (downvotes.has(data.userId)) {
+          throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+        }
+        downvotes.add(data.userId);
+        return data;
+      }),
+    },
+    $transaction: jest.fn(async (callback: (tx: unknown) => Promise<unknown>) => callback(prisma)),
+  };
+
+  return { prisma, participants, message };
+};
+
+const createWsService = () => ({
+  broadcastChatMessage: jest.fn(),
+  broadcastChatMessageHidden: jest.fn(),
+});
+
+describe('ChatService', () => {
+  describe('sendMessage', () => {
+    it.each([RunStatus.WAITING, RunStatus.ACTIVE, RunStatus.SETTLING])('lets participants post while the run is %s', async (status) => {
+      const { prisma } = createPrisma(status);
+      const wsService = createWsService();
+      const chatService = new ChatService(prisma as PrismaClient, wsService as unknown as WebSocketService);
+
+      await expect(chatService.sendMessage(RUN_ID, AUTHOR_ID, 'gm')).resolves.toMatchObject({ message: 'gm' });
+      expect(wsService.broadcastChatMessage).toHaveBeenCalled();
+    });
+
+    it.each([RunStatus.COOLDOWN, RunStatus.ENDED, RunStatus.CANCELLED])('closes the chat once the run is %s', async (status) => {
+      const { prisma } = createPrisma(status);
+      const chatService = new ChatService(prisma as PrismaClient, createWsService() as unknown as WebSocketService);
+
+      await expect(chatService.sendMessage(RUN_ID, AUTHOR_ID, 'gm')).rejects.toMatchObject({ statusCode: 409 });
+      expect(prisma.chatMessage.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects users who have not joined the run', async () => {
+      const { prisma } = createPrisma();
+      const chatService = new ChatService(prisma as PrismaClient, createWsService() as unknown as WebSocketService);
+
+      await expect(chatService.sendMessage(RUN_ID, 'stranger', 'gm')).rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+
+  describe('downvoteMessage', () => {
+    it('hides a message once it reaches the downvote threshold', async () => {
+      const { prisma, participants, message } = createPrisma();
+      const wsService = createWsService();
+      const chatService = new ChatService(prisma as PrismaClient, wsService as unknown as WebSocketService);
+
+      const voters = Array.from({ length: config.chatDownvoteHideThreshold }, (_, i) => `voter-${i}`);
+      voters.forEach(voter => participants.add(voter));
+
+      for (const voter of voters.slice(0, -1)) {
+        await expect(chatService.downvoteMessage(RUN_ID, message.id, voter)).resolves.toMatchObject({ isDeleted: false });
+      }
+      expect(wsService.broadcastChatMessageHidden).not.toHaveBeenCalled();
+
+      const result = await chatService.downvoteMessage(RUN_ID, message.id, voters[voters.length - 1]);
+
+      expect(result).toEqual({ id: message.id, downvotes: config.chatDownvoteHideThreshold, isDeleted: true });
+      expect(wsService.broadcastChatMessageHidden).toHaveBeenCalledWith(RUN_ID, {
+        runId: RUN_ID,
+        messageId: message.id,
+        downvotes: config.chatDownvoteHideThreshold,
+      });
+    });
+
+    it('counts one downvote per user', async () => {
+      const { prisma, participants, message } = createPrisma();
+      const chatService = new ChatService(prisma as PrismaClient, createWsService() as unknown as WebSocketService);
+      participants.add('voter');
+
+      await chatService.downvoteMessage(RUN_ID, message.id, 'voter');
+
+      await expect(chatService.downvoteMessage(RUN_ID, message.id, 'voter')).rejects.toMatchObject({ statusCode: 409 });
+      expect(message.downvotes).toBe(1);
+    });
+
+    it('turns a concurrent duplicate downvote into a conflict', async () => {
+      const { prisma, participants, message } = createPrisma();
+      const chatService = new ChatService(prisma as PrismaClient, createWsService() as unknown as WebSocketService);
+      participants.add('voter');
+
+      const results = await Promise.allSettled([
+        chatService.downvoteMessage(RUN_ID, message.id, 'voter'),
+        chatService.downvoteMessage(RUN_ID, message.id, 'voter'),
+      ]);
+
+      expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+      expect(results.find(r => r.status === 'rejected')).toMatchObject({ reason: { statusCode: 409 } });
+      expect(message.downvotes).toBe(1);
+    });
+
+    it('does not let authors downvote their own message', async () => {
+      const { prisma, message } = createPrisma();
+      const chatService = new ChatService(prisma as PrismaClient, createWsService() as unknown as WebSocketService);
+
+      await expect(chatService.downvoteMessage(RUN_ID, message.id, AUTHOR_ID)).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+});
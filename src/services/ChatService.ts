@@ -0,0 +1,192 @@
+import { PrismaClient, Prisma, ChatMessage, RunStatus } from '@prisma/client';
+import { AppError } from '@/types';
+import logger from '@/utils/logger';
+import { config } from '@/utils/config';
+import { WebSocketService } from './WebSocketService';
+
+// Public author fields shown next to chat messages
+const CHAT_USER_SELECT = {
+  id: true,
+  username: true,
+  walletAddress: true,
+  xp: true,
+} satisfies Prisma.UserSelect;
+
+// Downvote results expose the tally only, never the (possibly hidden) content
+const CHAT_DOWNVOTE_SELECT = {
+  id: true,
+  downvotes: true,
+  isDeleted: true,
+} satisfies Prisma.ChatMessageSelect;
+
+export type ChatDownvoteResult = Prisma.ChatMessageGetPayload<{ select: typeof CHAT_DOWNVOTE_SELECT }>;
+
+// Chat is closed once a run ends or is cancelled
+const CHAT_OPEN_STATUSES: RunStatus[] = [RunStatus.WAITING, RunStatus.ACTIVE, RunStatus.SETTLING];
+
+export class ChatService {
+  constructor(private prisma: PrismaClient, private wsService: WebSocketService) {}
+
+  /**
+   * Post a message to a run's chat (participants only, while the run is open)
+   */
+  async sendMessage(runId: string, userId: string, message: string): Promise<ChatMessage> {
+    try {
+      const run = await this.prisma.run.findUnique({ where: { id: runId } });
+      if (!run) {
+        throw new AppError('Run not found', 404);
+      }
+
+      if (!CHAT_OPEN_STATUSES.includes(run.status)) {
+        throw new AppError('Chat is closed for this run', 409);
+      }
+
+      await this.assertParticipant(runId, userId);
+
+      const chatMessage = await this.prisma.chatMessage.create({
+        data: {
+          runId,
+          userId,
+          message,
+        },
+        include: {
+          user: { select: CHAT_USER_SELECT },
+        },
+      });
+
+      this.wsService.broadcastChatMessage(runId, { runId, message: chatMessage });
+
+      logger.info(`Chat message posted: run ${runId} by user ${userId}`);
+      return chatMessage;
+    } catch (error) {
+      logger.error('Error sending chat message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a page of a run's visible chat messages, newest first
+   */
+  async getMessages(runId: string, page: number = 1, limit: number = 20): Promise<{ messages: ChatMessage[]; total: number }> {
+    try {
+      const skip = (page - 1) * limit;
+      const where = { runId, isDeleted: false };
+
+      const [messages, total] = await Promise.all([
+        this.prisma.chatMessage.findMany({
+          where,
+          include: {
+            user: { select: CHAT_USER_SELECT },
+          },
+          orderBy: {
+            createdAt: 'desc',
+          },
+          skip,
+          take: limit,
+        }),
+        this.prisma.chatMessage.count({ where }),
+      ]);
+
+      return { messages, total };
+    } catch (error) {
+      logger.error('Error fetching chat messages:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Downvote a chat message; it is hidden once it reaches the downvote threshold
+   */
+  async downvoteMessage(runId: string, messageId: string, userId: string): Promise<ChatDownvoteResult> {
+    try {
+      const chatMessage = await this.prisma.chatMessage.findFirst({
+        where: { id: messageId, runId },
+      });
+
+      if (!chatMessage || chatMessage.isDeleted) {
+        throw new AppError('Message not found', 404);
+      }
+
+      if (chatMessage.userId === userId) {
+        throw new AppError('Cannot downvote your own message', 400);
+      }
+
+      await this.assertParticipant(runId, userId);
+
+      const existingDownvote = await this.prisma.chatDownvote.findUnique({
+        where: {
+          messageId_userId: {
+            messageId,
+            userId,
+          },
+        },
+      });
+
+      if (existingDownvote) {
+        throw new AppError('Message already downvoted', 409);
+      }
+
+      const updatedMessage = await this.prisma.$transaction(async (tx) => {
+        // A concurrent downvote by the same user trips the unique constraint (handled below)
+        await tx.chatDownvote.create({
+          data: {
+            messageId,
+            userId,
+          },
+        });
+
+        const downvoted = await tx.chatMessage.update({
+          where: { id: messageId },
+          data: {
+            downvotes: { increment: 1 },
+          },
+          select: CHAT_DOWNVOTE_SELECT,
+        });
+
+        if (downvoted.downvotes < config.chatDownvoteHideThreshold) {
+          return downvoted;
+        }
+
+        return tx.chatMessage.update({
+          where: { id: messageId },
+          data: {
+            isDeleted: true,
+          },
+          select: CHAT_DOWNVOTE_SELECT,
+        });
+      });
+
+      // Let clients drop hidden messages
+      if (updatedMessage.isDeleted) {
+        this.wsService.broadcastChatMessageHidden(runId, { runId, messageId, downvotes: updatedMessage.downvotes });
+        logger.info(`Chat message hidden after ${updatedMessage.downvotes} downvotes: ${messageId}`);
+      }
+
+      return updatedMessage;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new AppError('Message already downvoted', 409);
+      }
+      logger.error('Error downvoting chat message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Throw unless the user has joined the run
+   */
+  private async assertParticipant(runId: string, userId: string): Promise<void> {
+    const participant = await this.prisma.runParticipant.findUnique({
+      where: {
+        runId_userId: {
+          runId,
+          userId,
+        },
+      },
+    });
+
+    if (!participant) {
+      throw new AppError('Only run participants can chat', 403);
+    }
+  }
+}
@@ -45,28 +45,33 @@ export class DriftIntegrationService {
     pnl?: number;
     entryPrice?: number;
     exitPrice?: number;
+    baseAmount?: number;
+    fillUnknown?: boolean; // the order landed but its fill could not be read
     error?: string;
   }> {
     try {
       if (this.isRealTradingEnabled && this.realDriftService) {
-        // Execute real trade on Drift
-        const tx = await this.realDriftService.openPosition(params);
+        // Execute real trade on Drift at the realized fill price
+        const fill = await this.realDriftService.openPosition(params);
         
         return {
           success: true,
-          transactionId: tx,
-          entryPrice: await this.realDriftService.getOraclePrice(params.marketSymbol),
+          transactionId: fill.txSignature,
+          entryPrice: fill.fillPrice ?? undefined,
+          baseAmount: fill.baseAmount ?? undefined,
+          fillUnknown: fill.fillPrice === null,
         };
       } else {
-        // Execute mock trade
-        const mockResult = await this.mockDriftService.executeTrade({
-          direction: params.direction,
-          positionSize: params.baseAmount,
-          leverage: params.leverage || 1,
-          slippage: 0.01, // 1% default slippage for mock
-        });
+        // Mock fill at the current market price
+        const entryPrice = await this.getMarketPrice(params.marketSymbol);
+        logger.info(`[MOCK] Opened ${params.direction} ${params.baseAmount} ${params.marketSymbol} @ ${entryPrice}`);
 
-        return mockResult;
+        return {
+          success: true,
+          transactionId: `mock_open_${Date.now()}`,
+          entryPrice,
+          baseAmount: params.baseAmount,
+        };
       }
     } catch (error) {
       logger.error('Trade execution failed:', error);
@@ -77,6 +82,58 @@ export class DriftIntegrationService {
     }
   }
 
+  /**
+   * Reduce a position by exactly the size one trade opened
+   * The shared Drift account can hold several runs' trades on the same market, so
+   * settling one trade must never close the whole market position
+   * @param marketSymbol - Perp market symbol (e.g. 'SOL-PERP')
+   * @param direction - Direction of the trade being closed
+   * @param baseAmount - Base asset size the trade opened
+   */
+  async reducePosition(marketSymbol: string, direction: 'long' | 'short', baseAmount: number): Promise<{
+    success: boolean;
+    transactionId?: string;
+    exitPrice?: number;
+    fillUnknown?: boolean; // the order landed but its fill could not be read
+    error?: string;
+  }> {
+    const closeDirection = direction === 'long' ? 'short' : 'long';
+
+    try {
+      if (this.isRealTradingEnabled && this.realDriftService) {
+        const fill = await this.realDriftService.openPosition({
+          marketSymbol,
+          direction: closeDirection,
+          baseAmount,
+          reduceOnly: true,
+        });
+
+        return {
+          success: true,
+          transactionId: fill.txSignature,
+          exitPrice: fill.fillPrice ?? undefined,
+          fillUnknown: fill.fillPrice === null,
+        };
+      } else {
+        // Mock close at the current market price
+        const exitPrice = await this.getMarketPrice(marketSymbol);
+        logger.info(`[MOCK] Reduced ${direction} ${marketSymbol} by ${baseAmount} @ ${exitPrice}`);
+
+        return {
+          success: true,
+          transactionId: `mock_close_${Date.now()}`,
+          exitPrice,
+        };
+      }
+    } catch (error) {
+      logger.error('Reduce position failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
   /**
    * Close a position
    */
@@ -84,6 +141,7 @@ export class DriftIntegrationService {
     success: boolean;
     transactionId?: string;
     pnl?: number;
+    exitPrice?: number;
     error?: string;
   }> {
     try {
@@ -92,17 +150,24 @@ export class DriftIntegrationService {
         const positions = await this.realDriftService.getPositions();
         const position = positions.find(p => p.marketSymbol === marketSymbol);
         
-        const tx = await this.realDriftService.closePosition(marketSymbol);
+        const fill = await this.realDriftService.closePosition(marketSymbol);
         
         return {
           success: true,
-          transactionId: tx,
+          transactionId: fill.txSignature,
           pnl: position?.unrealizedPnl || 0,
+          exitPrice: fill.fillPrice ?? undefined,
         };
       } else {
-        // Mock close
-        const mockResult = await this.mockDriftService.closePosition('account', marketSymbol);
-        return mockResult;
+        // Mock close at the current market price
+        const exitPrice = await this.getMarketPrice(marketSymbol);
+        logger.info(`[MOCK] Closed position on ${marketSymbol} @ ${exitPrice}`);
+
+        return {
+          success: true,
+          transactionId: `mock_close_${Date.now()}`,
+          exitPrice,
+        };
       }
     } catch (error) {
       logger.error('Close position failed:', error);
@@ -115,6 +180,7 @@ export class DriftIntegrationService {
 
   /**
    * Get current market price
+   * @param symbol - Perp market symbol (e.g. 'SOL-PERP')
    */
   async getMarketPrice(symbol: string): Promise<number> {
     if (this.isRealTradingEnabled && this.realDriftService) {
@@ -125,8 +191,8 @@ export class DriftIntegrationService {
       }
     }
     
-    // Fallback to Binance prices
-    return await this.mockDriftService.getMarketPrice(symbol);
+    // Fallback to Binance prices (keyed by coin, e.g. 'SOL')
+    return await this.mockDriftService.getMarketPrice(symbol.replace(/-PERP$/, ''));
   }
 
   /**
@@ -0,0 +1,133 @@
+import { PrismaClient, Prisma, Notification, NotificationType } from '@prisma/client';
+import { AppError, NotificationMessage, WebSocketMessageType } from '@/types';
+import logger from '@/utils/logger';
+import { WebSocketService } from './WebSocketService';
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: Record<string, any>;
+}
+
+export class NotificationService {
+  constructor(private prisma: PrismaClient, private wsService: WebSocketService) {}
+
+  /**
+   * Store a notification for a user and push it to their connected sockets
+   * Failures are logged rather than thrown so notifications never block the caller
+   */
+  async notify(userId: string, input: NotificationInput): Promise<Notification | null> {
+    try {
+      const notification = await this.prisma.notification.create({
+        data: {
+          userId,
+          type: input.type,
+          title: input.title,
+          message: input.message,
+          data: input.data as Prisma.InputJsonObject | undefined,
+        },
+      });
+
+      const message: NotificationMessage = {
+        type: WebSocketMessageType.NOTIFICATION,
+        data: notification as unknown as NotificationMessage['data'],
+        timestamp: new Date(),
+      };
+      this.wsService.sendToUser(userId, message);
+
+      logger.info(`Notification ${input.type} sent to user ${userId}`);
+      return notification;
+    } catch (error) {
+      logger.error(`Error notifying user ${userId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Send the same notification to several users
+   */
+  async notifyMany(userIds: string[], input: NotificationInput): Promise<void> {
+    for (const userId of userIds) {
+      await this.notify(userId, input);
+    }
+  }
+
+  /**
+   * Get a page of a user's notifications, newest first
+   */
+  async getNotifications(
+    userId: string,
+    page: number = 1,
+    limit: number = 20,
+    unreadOnly: boolean = false
+  ): Promise<{ notifications: Notification[]; total: number; unread: number }> {
+    try {
+      const skip = (page - 1) * limit;
+      const where: Prisma.NotificationWhereInput = unreadOnly ? { userId, readAt: null } : { userId };
+
+      const [notifications, total, unread] = await Promise.all([
+        this.prisma.notification.findMany({
+          where,
+          orderBy: {
+            createdAt: 'desc',
+          },
+          skip,
+          take: limit,
+        }),
+        this.prisma.notification.count({ where }),
+        this.prisma.notification.count({ where: { userId, readAt: null } }),
+      ]);
+
+      return { notifications, total, unread };
+    } catch (error) {
+      logger.error('Error fetching notifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark one of a user's notifications as read
+   */
+  async markAsRead(userId: string, notificationId: string): Promise<Notification> {
+    try {
+      const notification = await this.prisma.notification.findFirst({
+        where: { id: notificationId, userId },
+      });
+
+      if (!notification) {
+        throw new AppError('Notification not found', 404);
+      }
+
+      if (notification.readAt) {
+        return notification;
+      }
+
+      return await this.prisma.notification.update({
+        where: { id: notificationId },
+        data: { readAt: new Date() },
+      });
+    } catch (error) {
+      logger.error('Error marking notification as read:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark all of a user's notifications as read
+   * @returns Number of notifications marked
+   */
+  async markAllAsRead(userId: string): Promise<number> {
+    try {
+      const { count } = await this.prisma.notification.updateMany({
+        where: { userId, readAt: null },
+        data: { readAt: new Date() },
+      });
+
+      return count;
+    } catch (error) {
+      logger.error('Error marking notifications as read:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { PrismaClient } from '@prisma/client';
+import { PermissionService } from './PermissionService';
+import { Role } from '@/types';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// In-memory stand-in for the role_permissions table
+const createPrisma = (grants: Array<{ role: Role; permission: string }>) => {
+  let rows = [...grants];
+
+  const prisma = {
+    rolePermission: {
+      findMany: jest.fn(async () => rows),
+      deleteMany: jest.fn(async ({ where }: any) => {
+        rows = rows.filter(r => r.role !== where.role);
+        return { count: 0 };
+      }),
+      createMany: jest.fn(async ({ data }: any) => {
+        rows.push(...data);
+        return { count: data.length };
+      }),
+    },
+    $transaction: jest.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+  };
+
+  return prisma;
+};
+
+describe('PermissionService', () => {
+  it('grants the permissions stored for a role', async () => {
+    const prisma = createPrisma([
+      { role: Role.MODERATOR, permission: 'users:ban' },
+      { role: Role.ADMIN, permission: 'users:roles' },
+    ]);
+    const permissionService = new PermissionService(prisma as unknown as PrismaClient);
+
+    await expect(permissionService.hasPermission(Role.MODERATOR, 'users:ban')).resolves.toBe(true);
+    await expect(permissionService.hasPermission(Role.MODERATOR, 'users:roles')).resolves.toBe(false);
+    await expect(permissionService.hasPermission(Role.USER, 'users:ban')).resolves.toBe(false);
+  });
+
+  it('ignores stored permissions no route checks', async () => {
+    const prisma = createPrisma([{ role: Role.OPERATOR, permission: 'runs:teleport' }]);
+    const permissionService = new PermissionService(prisma as unknown as PrismaClient);
+
+    await expect(permissionService.getRolePermissions()).resolves.toMatchObject({ [Role.OPERATOR]: [] });
+  });
+
+  it('caches grants until they are changed', async () => {
+    const prisma = createPrisma([{ role: Role.ADMIN, permission: 'users:roles' }]);
+    const permissionService = new PermissionService(prisma as unknown as PrismaClient);
+
+    await permissionService.hasPermission(Role.OPERATOR, 'runs:start');
+    await permissionService.hasPermission(Role.OPERATOR, 'runs:end');
+    expect(prisma.rolePermission.findMany).toHaveBeenCalledTimes(1);
+
+    await permissionService.setRolePermissions(Role.OPERATOR, ['runs:start', 'runs:end']);
+
+    await expect(permissionService.hasPermission(Role.OPERATOR, 'runs:start')).resolves.toBe(true);
+    expect(prisma.rolePermission.findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('replaces a role\'s permissions without touching other roles', async () => {
+    const prisma = createPrisma([
+      { role: Role.MODERATOR, permission: 'users:ban' },
+      { role: Role.OPERATOR, permission: 'runs:start' },
+    ]);
+    const permissionService = new PermissionService(prisma as unknown as PrismaClient);
+
+    await permissionService.setRolePermissions(Role.OPERATOR, ['runs:cancel']);
+
+    await expect(permissionService.getRolePermissions()).resolves.toMatchObject({
+      [Role.MODERATOR]: ['users:ban'],
+      [Role.OPERATOR]: ['runs:cancel'],
+    });
+  });
+
+  it('refuses to take role management away from admins', async () => {
+    const prisma = createPrisma([{ role: Role.ADMIN, permission: 'users:roles' }]);
+    const permissionService = new PermissionService(prisma as unknown as PrismaClient);
+
+    await expect(permissionService.setRolePermissions(Role.ADMIN, ['users:ban'])).rejects.toMatchObject({ statusCode: 400 });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+import { PrismaClient } from '@prisma/client';
+import { AppError, Role } from '@/types';
+import { Permission, isPermission } from '@/utils/permissions';
+import logger from '@/utils/logger';
+
+// How long role permissions are cached before being re-read from the database
+const CACHE_TTL_MS = 30 * 1000;
+
+export class PermissionService {
+  private cache: { permissions: Record<Role, Permission[]>; expiresAt: number } | null = null;
+
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Check whether a role grants a permission
+   * @param role - User role
+   * @param permission - Required permission
+   * @returns True if the role grants the permission
+   */
+  async hasPermission(role: Role, permission: Permission): Promise<boolean> {
+    const permissions = await this.getRolePermissions();
+    return permissions[role].includes(permission);
+  }
+
+  /**
+   * Get the permissions granted by every role
+   */
+  async getRolePermissions(): Promise<Record<Role, Permission[]>> {
+    try {
+      if (this.cache && this.cache.expiresAt > Date.now()) {
+        return this.cache.permissions;
+      }
+
+      const rows = await this.prisma.rolePermission.findMany({
+        orderBy: [{ role: 'asc' }, { permission: 'asc' }],
+      });
+
+      const permissions = Object.values(Role).reduce(
+        (acc, role) => ({ ...acc, [role]: [] }),
+        {} as Record<Role, Permission[]>
+      );
+
+      for (const row of rows) {
+        // Permissions no route checks any more are ignored rather than rejected
+        if (isPermission(row.permission)) {
+          permissions[row.role as Role].push(row.permission);
+        }
+      }
+
+      this.cache = { permissions, expiresAt: Date.now() + CACHE_TTL_MS };
+      return permissions;
+    } catch (error) {
+      logger.error('Error getting role permissions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the permissions granted by a role
+   * @param role - Role to update
+   * @param permissions - Full set of permissions the role should grant
+   */
+  async setRolePermissions(role: Role, permissions: Permission[]): Promise<Permission[]> {
+    try {
+      // Admins must keep role management or nobody could grant it back
+      if (role === Role.ADMIN && !permissions.includes('users:roles')) {
+        throw new AppError('The ADMIN role must keep users:roles', 400);
+      }
+
+      const unique = [...new Set(permissions)];
+
+      await this.prisma.$transaction([
+        this.prisma.rolePermission.deleteMany({ where: { role } }),
+        this.prisma.rolePermission.createMany({
+          data: unique.map((permission) => ({ role, permission })),
+        }),
+      ]);
+
+      this.cache = null;
+      logger.info(`Permissions for role ${role} set to: ${unique.join(', ') || '(none)'}`);
+      return unique;
+    } catch (error) {
+      logger.error('Error setting role permissions:', error);
+      throw error;
+    }
+  }
+}
@@ -5,6 +5,12 @@ import { PrismaClient } from '@prisma/client';
 import logger from '@/utils/logger';
 import nodeCron from 'node-cron';
 
+// Live price snapshot used when opening rounds and executing/settling trades
+export interface LivePrice {
+  price: number;
+  change24h: number;
+}
+
 export class PriceService {
   private driftService: DriftService;
   private wsService: WebSocketService;
@@ -12,6 +18,7 @@ export class PriceService {
   private priceCache: Map<string, PriceData> = new Map();
   private priceHistoryCache: Map<string, PriceData[]> = new Map(); // Rolling buffer of real prices
   private isRunning: boolean = false;
+  private readonly LIVE_PRICE_MAX_AGE_MS = 15 * 1000; // Cached prices older than this are refetched
 
   constructor(prisma: PrismaClient, wsService: WebSocketService) {
     this.driftService = new DriftService();
@@ -121,6 +128,26 @@ export class PriceService {
     return this.priceCache.get(symbol) || null;
   }
 
+  /**
+   * Get a live price for a symbol
+   * Uses the monitoring cache when it is fresh, otherwise asks Drift directly.
+   */
+  public async getLivePrice(symbol: string): Promise<LivePrice> {
+    const cached = this.priceCache.get(symbol);
+    if (cached && Date.now() - cached.timestamp.getTime() < this.LIVE_PRICE_MAX_AGE_MS) {
+      return {
+        price: cached.price,
+        change24h: cached.change24h || 0,
+      };
+    }
+
+    const marketData = await this.driftService.getMarketData(symbol);
+    return {
+      price: marketData.price,
+      change24h: marketData.change24h,
+    };
+  }
+
   /**
    * Get price history for a symbol (returns real rolling buffer data)
    */
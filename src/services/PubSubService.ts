@@ -0,0 +1,132 @@
+import { EventEmitter } from 'events';
+import { createClient } from 'redis';
+import { config, redisConfig } from '@/utils/config';
+import logger from '@/utils/logger';
+
+/**
+ * Pub/sub backplane used to fan WebSocket messages out across API instances
+ */
+export interface PubSubAdapter {
+  connect(): Promise<void>;
+  publish(channel: string, message: string): Promise<void>;
+  subscribe(channel: string, handler: (message: string) => void): Promise<void>;
+  increment(key: string): Promise<number>; // atomic counter shared by every instance
+  getCounter(key: string): Promise<number>;
+  expire(key: string, seconds: number): Promise<void>; // drop a counter once it is no longer needed
+  disconnect(): Promise<void>;
+}
+
+/**
+ * In-process backplane for single-instance deployments and tests
+ * Adapters sharing an emitter and counters behave like instances sharing a Redis server
+ */
+export class InMemoryPubSubAdapter implements PubSubAdapter {
+  constructor(
+    private emitter: EventEmitter = new EventEmitter(),
+    private counters: Map<string, number> = new Map()
+  ) {
+    this.emitter.setMaxListeners(0);
+  }
+
+  async connect(): Promise<void> {}
+
+  async publish(channel: string, message: string): Promise<void> {
+    // Deliver asynchronously, as a network backplane would
+    setImmediate(() => this.emitter.emit(channel, message));
+  }
+
+  async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+    this.emitter.on(channel, handler);
+  }
+
+  async increment(key: string): Promise<number> {
+    const value = (this.counters.get(key) || 0) + 1;
+    this.counters.set(key, value);
+    return value;
+  }
+
+  async getCounter(key: string): Promise<number> {
+    return this.counters.get(key) || 0;
+  }
+
+  async expire(key: string, seconds: number): Promise<void> {
+    setTimeout(() => this.counters.delete(key), seconds * 1000).unref();
+  }
+
+  async disconnect(): Promise<void> {
+    this.emitter.removeAllListeners();
+  }
+}
+
+/**
+ * Redis backplane; a subscribed connection cannot publish, so two clients are used
+ */
+export class RedisPubSubAdapter implements PubSubAdapter {
+  private publisher: ReturnType<typeof createClient>;
+  private subscriber: ReturnType<typeof createClient>;
+  private readonly CONNECT_TIMEOUT_MS = 5000; // the client retries forever, so give up on the first connect
+
+  constructor(url: string = redisConfig.url) {
+    this.publisher = createClient({ url });
+    this.subscriber = this.publisher.duplicate();
+
+    this.publisher.on('error', (error) => logger.error('Redis publisher error:', error));
+    this.subscriber.on('error', (error) => logger.error('Redis subscriber error:', error));
+  }
+
+  async connect(): Promise<void> {
+    let timeout: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        Promise.all([this.publisher.connect(), this.subscriber.connect()]),
+        new Promise((_, reject) => {
+          timeout = setTimeout(() => reject(new Error(`Redis not reachable within ${this.CONNECT_TIMEOUT_MS}ms`)), this.CONNECT_TIMEOUT_MS);
+        }),
+      ]);
+      logger.info('Connected to Redis pub/sub');
+    } catch (error) {
+      // Stop the clients' reconnect loop
+      await Promise.allSettled([this.publisher.disconnect(), this.subscriber.disconnect()]);
+      logger.error('Error connecting to Redis pub/sub:', error);
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.publisher.publish(channel, message);
+  }
+
+  async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+    await this.subscriber.subscribe(channel, handler);
+  }
+
+  async increment(key: string): Promise<number> {
+    return this.publisher.incr(key);
+  }
+
+  async getCounter(key: string): Promise<number> {
+    return parseInt((await this.publisher.get(key)) || '0', 10);
+  }
+
+  async expire(key: string, seconds: number): Promise<void> {
+    await this.publisher.expire(key, seconds);
+  }
+
+  async disconnect(): Promise<void> {
+    try {
+      await Promise.all([this.publisher.quit(), this.subscriber.quit()]);
+      logger.info('Redis pub/sub connection closed');
+    } catch (error) {
+      logger.error('Error closing Redis pub/sub:', error);
+    }
+  }
+}
+
+/**
+ * Create the backplane selected by WS_PUBSUB_ADAPTER
+ */
+export const createPubSubAdapter = (): PubSubAdapter => {
+  return config.wsPubSubAdapter === 'redis' ? new RedisPubSubAdapter() : new InMemoryPubSubAdapter();
+};
@@ -9,7 +9,10 @@ import {
   UserAccount,
   PerpPosition,
   QUOTE_PRECISION,
-  BASE_PRECISION
+  BASE_PRECISION,
+  OrderActionRecord,
+  parseLogs,
+  isVariant
 } from '@drift-labs/sdk';
 import { Wallet, BN } from '@coral-xyz/anchor';
 import { driftConfig, solanaConfig } from '@/utils/config';
@@ -24,6 +27,12 @@ export interface DriftTradeParams {
   reduceOnly?: boolean;
 }
 
+export interface DriftOrderFill {
+  txSignature: string;
+  baseAmount: number | null; // Base asset filled (e.g., SOL), null when the fill could not be read
+  fillPrice: number | null; // Average fill price, null when the fill could not be read
+}
+
 export interface DriftPositionInfo {
   marketSymbol: string;
   marketIndex: number;
@@ -194,9 +203,9 @@ export class RealDriftService {
 
   /**
    * Open a position on Drift
-   * Following official Drift SDK documentation for placing perp orders
+   * The market order is placed and taken in one transaction, so the fill is known when it returns
    */
-  async openPosition(params: DriftTradeParams): Promise<string> {
+  async openPosition(params: DriftTradeParams): Promise<DriftOrderFill> {
     this.ensureInitialized();
 
     if (!this.user) {
@@ -210,12 +219,11 @@ export class RealDriftService {
         : PositionDirection.SHORT;
 
       // Convert to base precision (9 decimals for SOL)
-      const baseAssetAmount = new BN(params.baseAmount * 1e9);
+      const baseAssetAmount = new BN(Math.round(params.baseAmount * 1e9));
 
       logger.info(`Opening ${params.direction} position: ${params.baseAmount} on ${params.marketSymbol}`);
 
-      // Place market order (official pattern from Drift docs)
-      const tx = await this.driftClient!.placePerpOrder({
+      const tx = await this.driftClient!.placeAndTakePerpOrder({
         orderType: OrderType.MARKET,
         marketIndex,
         direction,
@@ -223,8 +231,9 @@ export class RealDriftService {
         reduceOnly: params.reduceOnly || false,
       });
 
-      logger.info(`✅ Position opened: ${tx}`);
-      return tx;
+      const fill = await this.readFill(tx);
+      logger.info(`✅ Position ${params.reduceOnly ? 'reduced' : 'opened'}: ${fill.baseAmount ?? 'unknown size'} @ ${fill.fillPrice ?? 'unknown price'} (${tx})`);
+      return fill;
 
     } catch (error) {
       logger.error('Failed to open position on Drift:', error);
@@ -236,7 +245,7 @@ export class RealDriftService {
    * Close a position on Drift
    * Using reduce-only market order to close position
    */
-  async closePosition(marketSymbol: string): Promise<string> {
+  async closePosition(marketSymbol: string): Promise<DriftOrderFill> {
     this.ensureInitialized();
 
     if (!this.user) {
@@ -261,8 +270,8 @@ export class RealDriftService {
       
       logger.info(`Closing position on ${marketSymbol}: ${isLong ? 'LONG' : 'SHORT'} ${positionSize.toString()}`);
 
-      // Place reduce-only market order to close
-      const tx = await this.driftClient!.placePerpOrder({
+      // Place and take a reduce-only market order to close
+      const tx = await this.driftClient!.placeAndTakePerpOrder({
         orderType: OrderType.MARKET,
         marketIndex,
         direction: closeDirection,
@@ -270,8 +279,9 @@ export class RealDriftService {
         reduceOnly: true, // Important: this ensures we're closing, not opening opposite
       });
 
-      logger.info(`✅ Position closed: ${tx}`);
-      return tx;
+      const fill = await this.readFill(tx);
+      logger.info(`✅ Position closed: ${fill.baseAmount ?? 'unknown size'} @ ${fill.fillPrice ?? 'unknown price'} (${tx})`);
+      return fill;
 
     } catch (error) {
       logger.error('Failed to close position on Drift:', error);
@@ -279,6 +289,67 @@ export class RealDriftService {
     }
   }
 
+  /**
+   * Read the realized fill of a landed order
+   * The order has already executed by now, so a fill that cannot be read is returned as unknown
+   * instead of failing: callers must not treat the order as never sent and place it again
+   */
+  private async readFill(txSignature: string): Promise<DriftOrderFill> {
+    try {
+      return await this.getFill(txSignature);
+    } catch (error) {
+      logger.warn(`Could not read the fill of Drift transaction ${txSignature}:`, error);
+      return { txSignature, baseAmount: null, fillPrice: null };
+    }
+  }
+
+  /**
+   * Read the realized fill of an order from the fill records the Drift program logged in its transaction
+   */
+  private async getFill(txSignature: string): Promise<DriftOrderFill> {
+    const transaction = await this.connection.getTransaction(txSignature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+
+    const logs = transaction?.meta?.logMessages;
+    if (!logs) {
+      throw new Error(`Drift transaction ${txSignature} not found`);
+    }
+
+    const userAccountPublicKey = this.user!.getUserAccountPublicKey();
+    let baseFilled = new BN(0);
+    let quoteFilled = new BN(0);
+
+    for (const event of parseLogs(this.driftClient!.program, logs)) {
+      if (event.name !== 'OrderActionRecord') {
+        continue;
+      }
+
+      const record = event.data as unknown as OrderActionRecord;
+      if (!isVariant(record.action, 'fill') || !record.taker?.equals(userAccountPublicKey)) {
+        continue;
+      }
+
+      baseFilled = baseFilled.add(record.baseAssetAmountFilled || new BN(0));
+      quoteFilled = quoteFilled.add(record.quoteAssetAmountFilled || new BN(0));
+    }
+
+    if (baseFilled.isZero()) {
+      throw new Error(`Drift order in ${txSignature} was not filled`);
+    }
+
+    // Base amounts use 9 decimals (BASE_PRECISION), quote amounts 6 (QUOTE_PRECISION)
+    const baseAmount = baseFilled.toNumber() / 1e9;
+    const quoteAmount = quoteFilled.toNumber() / 1e6;
+
+    return {
+      txSignature,
+      baseAmount,
+      fillPrice: quoteAmount / baseAmount,
+    };
+  }
+
   /**
    * Get all open positions
    * Following official Drift SDK pattern for getting perp positions
@@ -1,23 +1,34 @@
-import { PrismaClient, RunStatus } from '@prisma/client';
+import { PrismaClient, RunStatus, RoundStatus, NotificationType } from '@prisma/client';
 import { RunService } from './RunService';
-import { SolanaService } from './SolanaService';
+import { NotificationService } from './NotificationService';
 import logger from '@/utils/logger';
+import { config } from '@/utils/config';
 
 /**
  * Run Scheduler Service
  * Handles automatic run lifecycle management:
  * - Auto-start runs after lobby phase (10 minutes)
- * - Auto-cancel runs with no participants
- * - Countdown management
+ * - Auto-cancel runs below the minimum participant count (deposits refunded)
+ * - Countdown management (subscribers count down from the last run update, so ticks are not broadcast)
+ * - Participant notifications (run starting soon, voting reminders)
+ * - Voting round progression for active runs (close, execute, open next, end run)
+ * - Resuming settlements interrupted in SETTLING
+ * - Retrying run rewards (stats, badges, notifications) a settlement did not deliver
+ * - Finalizing runs once their cooldown period is over
  */
 export class RunSchedulerService {
   private schedulerInterval: NodeJS.Timeout | null = null;
+  private isProcessing: boolean = false;
   private readonly LOBBY_DURATION_MS = 10 * 60 * 1000; // 10 minutes
   private readonly CHECK_INTERVAL_MS = 5 * 1000; // Check every 5 seconds
+  private readonly RUN_STARTING_NOTICE_SECONDS = 60; // Notify participants 1 minute before start
+  private readonly SETTLING_RETRY_AFTER_MS = 60 * 1000; // Resume settlements that made no progress for 1 minute
+  private readonly REWARDS_RETRY_AFTER_MS = 60 * 1000; // Retry rewards still undelivered 1 minute after a run ended
 
   constructor(
     private prisma: PrismaClient,
-    private runService: RunService
+    private runService: RunService,
+    private notificationService: NotificationService
   ) {}
 
   /**
@@ -54,9 +65,15 @@ export class RunSchedulerService {
   }
 
   /**
-   * Process all waiting runs
+   * Process all waiting and active runs
    */
   private async processRuns() {
+    // Skip this tick if the previous one is still running (trades can be slow)
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
     try {
       // Get all WAITING runs
       const waitingRuns = await this.prisma.run.findMany({
@@ -71,8 +88,59 @@ export class RunSchedulerService {
       for (const run of waitingRuns) {
         await this.processRun(run);
       }
+
+      // Get all ACTIVE runs
+      const activeRuns = await this.prisma.run.findMany({
+        where: {
+          status: RunStatus.ACTIVE,
+        },
+      });
+
+      for (const run of activeRuns) {
+        await this.processActiveRun(run);
+      }
+
+      // Get all SETTLING runs whose settlement was interrupted (e.g. the Drift close failed)
+      const stalledRuns = await this.prisma.run.findMany({
+        where: {
+          status: RunStatus.SETTLING,
+          updatedAt: { lte: new Date(Date.now() - this.SETTLING_RETRY_AFTER_MS) },
+        },
+      });
+
+      for (const run of stalledRuns) {
+        await this.resumeSettlement(run);
+      }
+
+      // Get all settled runs with participants whose rewards were not delivered (e.g. the process died mid-way)
+      const unrewardedRuns = await this.prisma.run.findMany({
+        where: {
+          status: { in: [RunStatus.COOLDOWN, RunStatus.ENDED] },
+          endedAt: { lte: new Date(Date.now() - this.REWARDS_RETRY_AFTER_MS) },
+          participants: { some: { finalShare: { not: null }, rewardedAt: null } },
+        },
+      });
+
+      for (const run of unrewardedRuns) {
+        await this.retryRunRewards(run);
+      }
+
+      // Get all COOLDOWN runs whose cooldown period is over
+      const cooldownEndedBefore = new Date(Date.now() - config.runCooldownMinutes * 60 * 1000);
+      const cooledDownRuns = await this.prisma.run.findMany({
+        where: {
+          status: RunStatus.COOLDOWN,
+          endedAt: { lte: cooldownEndedBefore },
+        },
+      });
+
+      for (const run of cooledDownRuns) {
+        await this.finalizeRun(run);
+      }
     } catch (error) {
       logger.error('Error processing runs:', error);
+    } finally {
+      this.isProcessing = false;
     }
   }
 
@@ -95,6 +163,24 @@ export class RunSchedulerService {
         data: { countdown: countdownSeconds },
       });
 
+      // Notify once, on the tick the countdown crosses the notice threshold
+      const previousCountdown = run.countdown ?? Infinity;
+      if (
+        countdownSeconds > 0 &&
+        countdownSeconds <= this.RUN_STARTING_NOTICE_SECONDS &&
+        previousCountdown > this.RUN_STARTING_NOTICE_SECONDS
+      ) {
+        await this.notificationService.notifyMany(
+          (run.participants || []).map((p: any) => p.userId),
+          {
+            type: NotificationType.RUN_STARTING,
+            title: 'Run starting soon',
+            message: `Your ${run.coin} run starts in ${countdownSeconds} seconds`,
+            data: { runId: run.id },
+          }
+        );
+      }
+
       // Check if lobby phase is over
       if (timeUntilStart <= 0) {
         await this.handleLobbyPhaseEnd(run);
@@ -109,10 +195,11 @@ export class RunSchedulerService {
    */
   private async handleLobbyPhaseEnd(run: any) {
     const participantCount = run.participants?.length || 0;
+    const minParticipants = Math.max(1, config.minParticipantsPerRun);
 
-    if (participantCount === 0) {
-      // No participants - cancel the run
-      await this.cancelRun(run);
+    if (participantCount < minParticipants) {
+      // Not enough participants - cancel the run and refund deposits
+      await this.cancelRun(run, minParticipants);
     } else {
       // Has participants - start the run
       await this.startRun(run);
@@ -126,64 +213,191 @@ export class RunSchedulerService {
     try {
       logger.info(`🚀 Auto-starting run ${run.id} (${run.participants?.length || 0} participants)`);
 
-      // Update run status to ACTIVE
-      await this.prisma.run.update({
-        where: { id: run.id },
-        data: {
-          status: RunStatus.ACTIVE,
-          startedAt: new Date(),
-          startingPool: run.totalPool,
-          countdown: null,
-        },
-      });
-
-      // Create first voting round
-      await this.prisma.votingRound.create({
-        data: {
-          runId: run.id,
-          round: 1,
-          status: 'OPEN',
-          timeRemaining: run.votingInterval * 60, // Convert to seconds
-          leverage: 1.0, // Default, will be randomized later
-          positionSize: 50.0, // Default 50% of pool
-          currentPrice: 0, // Will be updated when voting opens
-          priceChange24h: 0, // Will be updated
-        },
-      });
+      await this.runService.startRun(run.id);
 
       logger.info(`✅ Run ${run.id} started successfully`);
-      logger.info(`   Participants: ${run.participants?.length}`);
-      logger.info(`   Starting pool: ${run.totalPool / 100} USDC`);
-
-      // TODO: Start run on-chain via SolanaService
-      // await this.solanaService.startRun(runNumericId);
-
     } catch (error) {
       logger.error(`Error starting run ${run.id}:`, error);
     }
   }
 
   /**
-   * Auto-cancel a run with no participants
+   * Auto-cancel a run that did not reach the minimum participant count
    */
-  private async cancelRun(run: any) {
+  private async cancelRun(run: any, minParticipants: number) {
     try {
-      logger.info(`❌ Auto-canceling run ${run.id} (no participants)`);
+      const participantCount = run.participants?.length || 0;
+      logger.info(`❌ Auto-canceling run ${run.id} (${participantCount}/${minParticipants} participants)`);
 
-      // Update run status to ENDED (or CANCELLED if you add that status)
-      await this.prisma.run.update({
-        where: { id: run.id },
-        data: {
-          status: RunStatus.ENDED,
-          endedAt: new Date(),
-          countdown: null,
-        },
+      const reason = participantCount === 0
+        ? 'no participants'
+        : `only ${participantCount} of ${minParticipants} required participants`;
+      await this.runService.cancelRun(run.id, reason);
+
+      logger.info(`✅ Run ${run.id} canceled due to ${reason}`);
+    } catch (error) {
+      logger.error(`Error canceling run ${run.id}:`, error);
+    }
+  }
+
+  /**
+   * Progress an active run through its voting rounds
+   * A round stays open for votingInterval minutes from its startedAt. At each round
+   * boundary the previous round's position is settled, the closing round's trade is
+   * executed and the next round is opened. The final round's position is held for one
+   * more voting interval before the run ends.
+   */
+  private async processActiveRun(run: any) {
+    try {
+      const votingRound = await this.prisma.votingRound.findFirst({
+        where: { runId: run.id },
+        orderBy: { round: 'desc' },
       });
 
-      logger.info(`✅ Run ${run.id} canceled due to no participants`);
+      // Run was activated without a round (e.g. interrupted start) - open the first one
+      if (!votingRound) {
+        await this.runService.createVotingRound(run.id, 1);
+        return;
+      }
+
+      const intervalMs = run.votingInterval * 60 * 1000;
+      const isFinalRound = votingRound.round >= run.totalRounds;
+
+      switch (votingRound.status) {
+        case RoundStatus.OPEN: {
+          const roundEndsAt = new Date(votingRound.startedAt).getTime() + intervalMs;
+          const timeRemaining = Math.max(0, Math.floor((roundEndsAt - Date.now()) / 1000));
+
+          if (timeRemaining > 0) {
+            await this.prisma.votingRound.update({
+              where: { id: votingRound.id },
+              data: { timeRemaining },
+            });
+
+            // Remind non-voters once, on the tick the round passes its halfway point
+            const halfwaySeconds = Math.floor(intervalMs / 2000);
+            if (timeRemaining <= halfwaySeconds && votingRound.timeRemaining > halfwaySeconds) {
+              await this.remindNonVoters(run, votingRound.round, timeRemaining);
+            }
+            return;
+          }
+
+          await this.runService.closeVotingRound(run.id, votingRound.round);
+          await this.handleRoundBoundary(run, votingRound.round);
+          return;
+        }
 
+        case RoundStatus.CLOSED:
+          // Interrupted between closing the round and executing its trade
+          await this.handleRoundBoundary(run, votingRound.round);
+          return;
+
+        case RoundStatus.EXECUTING: {
+          if (!isFinalRound) {
+            // Interrupted before the next round was opened
+            await this.openNextRound(run, votingRound.round);
+            return;
+          }
+
+          const executedAt = votingRound.executedAt ? new Date(votingRound.executedAt).getTime() : 0;
+          if (Date.now() - executedAt >= intervalMs) {
+            logger.info(`🏁 Run ${run.id} completed all ${run.totalRounds} rounds, ending run`);
+            await this.runService.endRun(run.id);
+          }
+          return;
+        }
+
+        case RoundStatus.SETTLED:
+          if (isFinalRound) {
+            await this.runService.endRun(run.id);
+          } else {
+            await this.openNextRound(run, votingRound.round);
+          }
+          return;
+      }
     } catch (error) {
-      logger.error(`Error canceling run ${run.id}:`, error);
+      logger.error(`Error processing active run ${run.id}:`, error);
+    }
+  }
+
+  /**
+   * Notify participants who have not voted in an open round yet
+   */
+  private async remindNonVoters(run: any, round: number, timeRemaining: number) {
+    const [participants, votes] = await Promise.all([
+      this.prisma.runParticipant.findMany({
+        where: { runId: run.id },
+        select: { userId: true },
+      }),
+      this.prisma.vote.findMany({
+        where: { runId: run.id, round },
+        select: { userId: true },
+      }),
+    ]);
+
+    const voters = new Set(votes.map(v => v.userId));
+    const nonVoters = participants.map(p => p.userId).filter(userId => !voters.has(userId));
+
+    await this.notificationService.notifyMany(nonVoters, {
+      type: NotificationType.ROUND_OPEN,
+      title: `Round ${round} is open`,
+      message: `You haven't voted in round ${round} yet - ${Math.ceil(timeRemaining / 60)} min left`,
+      data: { runId: run.id, round },
+    });
+  }
+
+  /**
+   * Settle the previous position, execute the closed round's trade and open the next round
+   */
+  private async handleRoundBoundary(run: any, round: number) {
+    await this.runService.settleOpenTrades(run.id);
+    await this.runService.executeTrade(run.id, round);
+
+    if (round < run.totalRounds) {
+      await this.openNextRound(run, round);
+    }
+  }
+
+  /**
+   * Open the round after the given one
+   */
+  private async openNextRound(run: any, round: number) {
+    await this.runService.createVotingRound(run.id, round + 1);
+    logger.info(`🗳️  Run ${run.id} advanced to round ${round + 1}/${run.totalRounds}`);
+  }
+
+  /**
+   * Retry the settlement of a run stuck in SETTLING
+   */
+  private async resumeSettlement(run: any) {
+    try {
+      logger.info(`🔁 Resuming settlement of run ${run.id}`);
+      await this.runService.endRun(run.id);
+    } catch (error) {
+      logger.error(`Error resuming settlement of run ${run.id}:`, error);
+    }
+  }
+
+  /**
+   * Deliver the rewards a settled run's participants are still missing
+   */
+  private async retryRunRewards(run: any) {
+    try {
+      logger.info(`🔁 Retrying rewards of run ${run.id}`);
+      await this.runService.deliverRunRewards(run.id);
+    } catch (error) {
+      logger.error(`Error retrying rewards of run ${run.id}:`, error);
+    }
+  }
+
+  /**
+   * Finalize a run whose cooldown period is over
+   */
+  private async finalizeRun(run: any) {
+    try {
+      await this.runService.finalizeRun(run.id);
+    } catch (error) {
+      logger.error(`Error finalizing run ${run.id}:`, error);
     }
   }
 
@@ -0,0 +1,226 @@
+import { Prisma, PrismaClient, Trade, TradeStatus } from '@prisma/client';
+import { RunService } from './RunService';
+import { PriceService } from './PriceService';
+import { DriftIntegrationService } from './DriftIntegrationService';
+import { UserService } from './UserService';
+import { BadgeService } from './BadgeService';
+import { WebSocketService } from './WebSocketService';
+import { NotificationService } from './NotificationService';
+import { SolanaService } from './SolanaService';
+import { TallyStrategy, TieBreaker } from '@/types';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const RUN_ID = 'run-1';
+const ROUND = 1;
+
+// In-memory stand-in for the run, voting round and trade tables of a run whose round voted LONG
+const createPrisma = () => {
+  const run = {
+    id: RUN_ID,
+    coin: 'SOL',
+    totalPool: 1000,
+    needsAttention: false,
+    tallyStrategy: TallyStrategy.PLURALITY,
+    tieBreaker: TieBreaker.SKIP,
+    supermajorityThreshold: null,
+    participants: [{ userId: 'voter', depositAmount: 10, user: { xp: 0 } }],
+  };
+  const trades: Trade[] = [];
+
+  const findTrade = (where: any) =>
+    trades.find(t => (where.id ? t.id === where.id : t.runId === where.runId_round.runId && t.round === where.runId_round.round));
+
+  const prisma: any = {
+    run: {
+      findUnique: jest.fn(async () => ({ ...run })),
+      update: jest.fn(async ({ data }: any) => Object.assign(run, data)),
+    },
+    votingRound: {
+      findUnique: jest.fn(async () => ({ runId: RUN_ID, round: ROUND, leverage: 2, positionSize: 50 })),
+      update: jest.fn(async ({ data }: any) => data),
+    },
+    vote: {
+      findMany: jest.fn(async () => [{ userId: 'voter', choice: 'LONG', votedAt: new Date() }]),
+    },
+    trade: {
+      create: jest.fn(async ({ data }: any) => {
+        if (findTrade({ runId_round: { runId: data.runId, round: data.round } })) {
+          throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+        }
+        const trade = { id: `trade-${trades.length + 1}`, baseAmount: null, settledAt: null, executedAt: new Date(), ...data } as Trade;
+        trades.push(trade);
+        return { ...trade };
+      }),
+      findUniqueOrThrow: jest.fn(async ({ where }: any) => ({ ...findTrade(where)! })),
+      findFirst: jest.fn(async ({ where }: any) => {
+        const trade = findTrade({ runId_round: { runId: where.runId, round: where.round } });
+        return trade ? { ...trade } : null;
+      }),
+      update: jest.fn(async ({ where, data }: any) => ({ ...Object.assign(findTrade(where)!, data) })),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const rows = trades.filter(t => t.id === where.id && t.status === where.status);
+        rows.forEach(t => Object.assign(t, data));
+        return { count: rows.length };
+      }),
+      delete: jest.fn(async ({ where }: any) => trades.splice(trades.indexOf(findTrade(where)!), 1)[0]),
+    },
+    $transaction: jest.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+  };
+
+  return { prisma, run, trades };
+};
+
+const createDriftService = () => ({
+  executeTrade: jest.fn(async () => ({ success: true, transactionId: 'open-tx', entryPrice: 100, baseAmount: 10 })),
+  reducePosition: jest.fn(async () => ({ success: true, transactionId: 'close-tx', exitPrice: 110 })),
+});
+
+describe('RunService Drift trades', () => {
+  const setup = () => {
+    const db = createPrisma();
+    const driftService = createDriftService();
+    const priceService = { getLivePrice: jest.fn(async () => ({ price: 100 })) };
+    const wsService = { broadcastTradeUpdate: jest.fn() };
+    const runService = new RunService(
+      db.prisma as PrismaClient,
+      priceService as unknown as PriceService,
+      driftService as unknown as DriftIntegrationService,
+      {} as UserService,
+      {} as BadgeService,
+      wsService as unknown as WebSocketService,
+      {} as NotificationService,
+      {} as SolanaService
+    );
+    return { ...db, driftService, runService };
+  };
+
+  // An EXECUTED trade ready to be settled
+  const openTrade = (trades: Trade[], fields: Partial<Trade> = {}): Trade => {
+    const trade = {
+      id: 'trade-1',
+      runId: RUN_ID,
+      round: ROUND,
+      direction: 'LONG',
+      leverage: 2,
+      positionSize: 50,
+      entryPrice: new Prisma.Decimal(100),
+      baseAmount: new Prisma.Decimal(10),
+      status: TradeStatus.EXECUTED,
+      settledAt: null,
+      executedAt: new Date(),
+      ...fields,
+    } as Trade;
+    trades.push(trade);
+    return trade;
+  };
+
+  describe('executeTrade', () => {
+    it('records the opened position on the claimed trade', async () => {
+      const { runService, trades } = setup();
+
+      await runService.executeTrade(RUN_ID, ROUND);
+
+      expect(trades).toHaveLength(1);
+      expect(trades[0]).toMatchObject({ direction: 'LONG', status: TradeStatus.EXECUTED, openTxId: 'open-tx', baseAmount: 10 });
+    });
+
+    it('releases the claim when the position fails to open', async () => {
+      const { runService, driftService, trades } = setup();
+      driftService.executeTrade.mockResolvedValueOnce({ success: false, error: 'insufficient collateral' } as any);
+
+      await expect(runService.executeTrade(RUN_ID, ROUND)).rejects.toMatchObject({ statusCode: 502 });
+      expect(trades).toHaveLength(0);
+
+      await runService.executeTrade(RUN_ID, ROUND);
+      expect(trades[0]!.status).toBe(TradeStatus.EXECUTED);
+    });
+
+    it('keeps the claim and flags the run when the fill is unknown', async () => {
+      const { runService, driftService, run, trades } = setup();
+      driftService.executeTrade.mockResolvedValueOnce({ success: true, fillUnknown: true, transactionId: 'open-tx' } as any);
+
+      await expect(runService.executeTrade(RUN_ID, ROUND)).rejects.toMatchObject({ statusCode: 502 });
+
+      expect(trades[0]).toMatchObject({ status: TradeStatus.PENDING, openTxId: 'open-tx' });
+      expect(run.needsAttention).toBe(true);
+
+      // The round stays claimed, so a retry cannot open a second position
+      await expect(runService.executeTrade(RUN_ID, ROUND)).rejects.toMatchObject({ statusCode: 409 });
+      expect(driftService.executeTrade).toHaveBeenCalledTimes(1);
+    });
+
+    it('opens one position when the round is executed concurrently', async () => {
+      const { runService, driftService, trades } = setup();
+
+      const results = await Promise.allSettled([
+        runService.executeTrade(RUN_ID, ROUND),
+        runService.executeTrade(RUN_ID, ROUND),
+      ]);
+
+      expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+      expect(results.find(r => r.status === 'rejected')).toMatchObject({ reason: { statusCode: 409 } });
+      expect(driftService.executeTrade).toHaveBeenCalledTimes(1);
+      expect(trades).toHaveLength(1);
+    });
+
+    it('returns the trade of a round already executed', async () => {
+      const { runService, driftService } = setup();
+      const trade = await runService.executeTrade(RUN_ID, ROUND);
+
+      await expect(runService.executeTrade(RUN_ID, ROUND)).resolves.toMatchObject({ id: trade.id, status: TradeStatus.EXECUTED });
+      expect(driftService.executeTrade).toHaveBeenCalledTimes(1);
+    });
+
+    it('flags the run when a claim is left pending past the stale threshold', async () => {
+      const { runService, driftService, run, trades } = setup();
+      openTrade(trades, { status: TradeStatus.PENDING, executedAt: new Date(Date.now() - 10 * 60 * 1000) });
+
+      await expect(runService.executeTrade(RUN_ID, ROUND)).rejects.toMatchObject({ statusCode: 409 });
+
+      expect(run.needsAttention).toBe(true);
+      expect(driftService.executeTrade).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settleTrade', () => {
+    it('refuses to close a trade that is already being closed', async () => {
+      const { runService, driftService, run, trades } = setup();
+      openTrade(trades, { status: TradeStatus.CLOSING });
+
+      await expect(runService.settleTrade(RUN_ID, ROUND)).rejects.toMatchObject({ statusCode: 409 });
+
+      expect(driftService.reducePosition).not.toHaveBeenCalled();
+      expect(run.needsAttention).toBe(true);
+    });
+
+    it('releases the close claim when the reduce fails', async () => {
+      const { runService, driftService, trades } = setup();
+      const trade = openTrade(trades);
+      driftService.reducePosition.mockResolvedValueOnce({ success: false, error: 'oracle stale' } as any);
+
+      await expect(runService.settleTrade(RUN_ID, ROUND)).rejects.toMatchObject({ statusCode: 502 });
+
+      expect(driftService.reducePosition).toHaveBeenCalledWith('SOL-PERP', 'long', 10);
+      expect(trade.status).toBe(TradeStatus.EXECUTED);
+    });
+
+    it('keeps the close claim and flags the run when the fill is unknown', async () => {
+      const { runService, driftService, run, trades } = setup();
+      const trade = openTrade(trades);
+      driftService.reducePosition.mockResolvedValueOnce({ success: true, fillUnknown: true, transactionId: 'close-tx' } as any);
+
+      await expect(runService.settleTrade(RUN_ID, ROUND)).rejects.toMatchObject({ statusCode: 502 });
+
+      expect(trade).toMatchObject({ status: TradeStatus.CLOSING, closeTxId: 'close-tx' });
+      expect(run.needsAttention).toBe(true);
+
+      // A retry must not reduce the shared position a second time
+      await expect(runService.settleTrade(RUN_ID, ROUND)).rejects.toMatchObject({ statusCode: 409 });
+      expect(driftService.reducePosition).toHaveBeenCalledTimes(1);
+    });
+  });
+});
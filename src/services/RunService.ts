@@ -1,13 +1,35 @@
-import { PrismaClient, Run, RunParticipant, Trade, VotingRound, RunStatus, RoundStatus, User } from '@prisma/client';
-import { CreateRunRequest, JoinRunRequest, Run as RunType } from '@/types';
+import { Prisma, PrismaClient, Run, RunParticipant, Trade, VotingRound, RunStatus, RoundStatus, User, NotificationType, TradeStatus, ChainTxKind } from '@prisma/client';
+import { CreateRunRequest, JoinRunRequest, Run as RunType, Trade as TradeType, RunStatus as RunStatusType, TallyStrategy, TieBreaker, VoteChoice, VoteDistribution, RunRewardsMessage, WebSocketMessageType } from '@/types';
 import { AppError } from '@/types';
 import { generateChaosModifiers, calculatePositionSize, calculatePotentialPnL, applyPlatformFee, distributePnL, calculateFinalShare } from '@/utils/chaos';
-import { calculateVoteXp, calculateRunXp } from '@/utils/xp';
+import { calculateVoteXp, calculateRunXp, isVoteCorrect } from '@/utils/xp';
+import { assertTransition } from '@/utils/runStateMachine';
+import { tallyVotes, getVoteWeight } from '@/utils/voteTally';
 import logger from '@/utils/logger';
-import { config } from '@/utils/config';
+import { config, solanaConfig } from '@/utils/config';
 import { SolanaService } from './SolanaService';
+import { PriceService, LivePrice } from './PriceService';
+import { DriftIntegrationService } from './DriftIntegrationService';
+import { UserService, completedRunFilter } from './UserService';
+import { BadgeService } from './BadgeService';
+import { WebSocketService } from './WebSocketService';
+import { NotificationService } from './NotificationService';
 import { getExplorerUrl } from '@/utils/solana';
 
+// Public fields of a chain transaction (instructions and retry bookkeeping stay internal)
+const PUBLIC_CHAIN_TX_SELECT = {
+  kind: true,
+  signature: true,
+  status: true,
+  slot: true,
+  error: true,
+  retries: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ChainTransactionSelect;
+
+type PublicChainTransaction = Prisma.ChainTransactionGetPayload<{ select: typeof PUBLIC_CHAIN_TX_SELECT }>;
+
 // Type for Run with included relations
 type RunWithParticipants = Run & {
   participants?: (RunParticipant & { user?: User })[];
@@ -17,11 +39,21 @@ type RunWithParticipants = Run & {
 
 export class RunService {
   private solanaService: SolanaService | null = null;
-
-  constructor(private prisma: PrismaClient, solanaService?: SolanaService) {
+  private readonly STALE_PENDING_TRADE_MS = 2 * 60 * 1000; // a trade open this long was interrupted
+
+  constructor(
+    private prisma: PrismaClient,
+    private priceService: PriceService,
+    private driftService: DriftIntegrationService,
+    private userService: UserService,
+    private badgeService: BadgeService,
+    private wsService: WebSocketService,
+    private notificationService: NotificationService,
+    solanaService?: SolanaService
+  ) {
     // Make Solana service optional - useful for development when blockchain is not needed
     try {
-      this.solanaService = solanaService || new SolanaService();
+      this.solanaService = solanaService || new SolanaService(prisma);
       logger.info('RunService initialized with Solana integration');
     } catch (error) {
       logger.warn('RunService initialized WITHOUT Solana integration (blockchain features disabled)');
@@ -30,6 +62,13 @@ export class RunService {
     }
   }
 
+  /**
+   * Get the Solana service (null when blockchain integration is disabled)
+   */
+  getSolanaService(): SolanaService | null {
+    return this.solanaService;
+  }
+
   /**
    * Create a new run
    */
@@ -40,7 +79,7 @@ export class RunService {
       // Set lobby phase duration (10 minutes from now)
       // Countdown will be calculated dynamically based on createdAt + 10 minutes
 
-      // First create in database to get the ID
+      // Create in database first; the database allocates the run's on-chain ID
       const run = await this.prisma.run.create({
         data: {
           tradingPair: data.tradingPair,
@@ -51,38 +90,38 @@ export class RunService {
           maxDeposit: (data.maxDeposit || config.maxDepositUsdc) * 100, // Convert to cents
           maxParticipants: data.maxParticipants || config.maxParticipantsPerRun,
           totalRounds,
+          tallyStrategy: data.tallyStrategy,
+          tieBreaker: data.tieBreaker,
+          supermajorityThreshold: data.supermajorityThreshold,
         },
       });
 
-      // Extract numeric ID for Solana (assuming auto-increment or convert)
-      // If your ID is a string UUID, you'll need a separate numeric ID field
-      const runNumericId = parseInt(run.id) || Date.now(); // Fallback to timestamp if not numeric
-
       // Only interact with blockchain if Solana service is available
+      // Both transactions are recorded by SolanaService; ones that do not land are retried by the transaction tracker
       if (this.solanaService) {
         try {
           // Create run on-chain
           const createTx = await this.solanaService.createRun(
-            runNumericId,
+            run.onChainRunId,
             data.minDeposit || config.minDepositUsdc,
             data.maxDeposit || config.maxDepositUsdc,
             data.maxParticipants || config.maxParticipantsPerRun
           );
-
-        // Create vault for the run
-        const vaultTx = await this.solanaService.createRunVault(runNumericId);
-
-        // Log blockchain transaction info (blockchainTxHash field doesn't exist in schema yet)
-        logger.info(`✅ Run created: ${run.id} (${run.tradingPair})`);
-        logger.info(`   Run PDA derived for ID: ${runNumericId}`);
-        logger.info(`   Create TX: ${createTx}`);
-        logger.info(`   Vault TX: ${vaultTx}`);
+          logger.info(`   Create TX: ${createTx}`);
         } catch (solanaError) {
-          // If blockchain creation fails, we should handle it
           logger.error('Failed to create run on-chain, but DB entry created:', solanaError);
-          // Optionally: Delete the DB entry or mark as failed
-          // For now, we'll let it exist but log the error
         }
+
+        // Create vault for the run - still attempted if the run account is not confirmed yet,
+        // so the tracker can retry it once the run account exists
+        try {
+          const vaultTx = await this.solanaService.createRunVault(run.onChainRunId);
+          logger.info(`   Vault TX: ${vaultTx}`);
+        } catch (solanaError) {
+          logger.error('Failed to create run vault on-chain:', solanaError);
+        }
+
+        logger.info(`✅ Run created: ${run.id} (${run.tradingPair}), on-chain ID ${run.onChainRunId}`);
       } else {
         logger.info(`Run created: ${run.id} (${run.tradingPair}) - Blockchain integration disabled`);
       }
@@ -125,7 +164,7 @@ export class RunService {
       return await this.prisma.run.findMany({
         where: {
           status: {
-            in: [RunStatus.WAITING, RunStatus.ACTIVE],
+            in: [RunStatus.WAITING, RunStatus.ACTIVE, RunStatus.SETTLING, RunStatus.COOLDOWN],
           },
         },
         include: {
@@ -235,12 +274,13 @@ export class RunService {
       });
 
       // Update run total pool
-      await this.prisma.run.update({
+      const updatedRun = await this.prisma.run.update({
         where: { id: runId },
         data: {
           totalPool: run.totalPool + depositAmount,
         },
       });
+      this.publishRunUpdate(updatedRun);
 
       logger.info(`User ${userId} joined run ${runId} with ${data.depositAmount} USDC`);
       return participant;
@@ -278,7 +318,7 @@ export class RunService {
       }
 
       // Remove participant and update pool
-      await this.prisma.$transaction([
+      const [, updatedRun] = await this.prisma.$transaction([
         this.prisma.runParticipant.delete({
           where: {
             runId_userId: {
@@ -294,6 +334,7 @@ export class RunService {
           },
         }),
       ]);
+      this.publishRunUpdate(updatedRun);
 
       logger.info(`User ${userId} left run ${runId}`);
     } catch (error) {
@@ -303,7 +344,8 @@ export class RunService {
   }
 
   /**
-   * Start a run
+   * Start a run (WAITING → ACTIVE) and open its first voting round
+   * Used by both the admin route and the run scheduler
    */
   async startRun(runId: string): Promise<Run> {
     try {
@@ -312,9 +354,7 @@ export class RunService {
         throw new AppError('Run not found', 404);
       }
 
-      if (run.status !== RunStatus.WAITING) {
-        throw new AppError('Run cannot be started', 400);
-      }
+      assertTransition(run.status, RunStatus.ACTIVE);
 
       if (!run.participants || run.participants.length === 0) {
         throw new AppError('Run has no participants', 400);
@@ -322,9 +362,8 @@ export class RunService {
 
       // Start run on-chain (if blockchain is enabled)
       if (this.solanaService) {
-        const runNumericId = parseInt(run.id) || Date.now();
         try {
-          const startTx = await this.solanaService.startRun(runNumericId);
+          const startTx = await this.solanaService.startRun(run.onChainRunId);
           logger.info(`Run started on-chain: ${getExplorerUrl(startTx)}`);
         } catch (solanaError) {
           logger.error('Failed to start run on-chain:', solanaError);
@@ -332,19 +371,25 @@ export class RunService {
         }
       }
 
-      const updatedRun = await this.prisma.run.update({
-        where: { id: runId },
-        data: {
-          status: RunStatus.ACTIVE,
+      const livePrice = await this.priceService.getLivePrice(run.coin);
+
+      const updatedRun = await this.prisma.$transaction(async (tx) => {
+        const activeRun = await this.transitionRun(tx, runId, RunStatus.WAITING, RunStatus.ACTIVE, {
           startedAt: new Date(),
           startingPool: run.totalPool,
-        },
+          countdown: null,
+        });
+
+        // Create first voting round
+        await this.openVotingRound(tx, activeRun, 1, livePrice);
+
+        return tx.run.findUniqueOrThrow({ where: { id: runId } });
       });
 
-      // Create first voting round
-      await this.createVotingRound(runId, 1);
+      this.publishRunUpdate(updatedRun);
+      await this.publishVoteUpdate(runId, 1);
 
-      logger.info(`Run started: ${runId}`);
+      logger.info(`Run started: ${runId} (${run.participants.length} participants, pool ${run.totalPool / 100} USDC)`);
       return updatedRun;
     } catch (error) {
       logger.error('Error starting run:', error);
@@ -352,29 +397,106 @@ export class RunService {
     }
   }
 
+  /**
+   * Cancel a run before it starts (WAITING → CANCELLED) and refund every deposit
+   */
+  async cancelRun(runId: string, reason: string): Promise<Run> {
+    try {
+      const run = await this.getRunById(runId);
+      if (!run) {
+        throw new AppError('Run not found', 404);
+      }
+
+      assertTransition(run.status, RunStatus.CANCELLED);
+
+      const participants = run.participants || [];
+
+      const updatedRun = await this.prisma.$transaction(async (tx) => {
+        const cancelledRun = await this.transitionRun(tx, runId, RunStatus.WAITING, RunStatus.CANCELLED, {
+          endedAt: new Date(),
+          countdown: null,
+        });
+
+        // Refund deposits in full; on-chain refunds are pending (finalShare set, not withdrawn)
+        // until their transaction confirms
+        for (const participant of participants) {
+          if (participant.withdrawn) {
+            continue;
+          }
+
+          await tx.runParticipant.update({
+            where: { id: participant.id },
+            data: {
+              finalShare: participant.depositAmount,
+              ...(!this.solanaService && { withdrawn: true, withdrawnAt: new Date() }),
+            },
+          });
+        }
+
+        return cancelledRun;
+      });
+
+      // Return deposits from the run vault (if blockchain is enabled)
+      if (this.solanaService) {
+        for (const participant of participants) {
+          if (!participant.user?.walletAddress || participant.withdrawn) {
+            continue;
+          }
+
+          try {
+            const refundTx = await this.solanaService.emergencyWithdraw(
+              run.onChainRunId,
+              participant.user.walletAddress,
+              participant.depositAmount / 100 // Convert from cents to USDC
+            );
+            await this.prisma.runParticipant.update({
+              where: { id: participant.id },
+              data: { withdrawn: true, withdrawnAt: new Date() },
+            });
+            logger.info(`Deposit refunded on-chain for ${participant.userId}: ${getExplorerUrl(refundTx)}`);
+          } catch (solanaError) {
+            logger.error(`Failed to refund deposit on-chain for ${participant.userId}:`, solanaError);
+            // Continue with the remaining participants - the transaction tracker retries the refund
+            // and marks the participant withdrawn once it confirms
+          }
+        }
+      }
+
+      this.publishRunUpdate(updatedRun);
+
+      logger.info(`Run cancelled: ${runId} (${reason}) - ${participants.length} deposits refunded`);
+      return updatedRun;
+    } catch (error) {
+      logger.error('Error cancelling run:', error);
+      throw error;
+    }
+  }
+
   /**
    * Create a voting round
    */
   async createVotingRound(runId: string, round: number): Promise<VotingRound> {
     try {
-      const chaosModifiers = generateChaosModifiers();
-      
-      // Get current price (mock for now)
-      const currentPrice = 150.0; // TODO: Get real price from price feed
-      const priceChange24h = 2.5; // TODO: Get real 24h change
+      const existingRun = await this.prisma.run.findUnique({ where: { id: runId } });
+      if (!existingRun) {
+        throw new AppError('Run not found', 404);
+      }
 
-      const votingRound = await this.prisma.votingRound.create({
-        data: {
-          runId,
-          round,
-          leverage: chaosModifiers.leverage,
-          positionSize: chaosModifiers.positionSize,
-          currentPrice,
-          priceChange24h,
-          timeRemaining: 600, // 10 minutes in seconds
-        },
+      const livePrice = await this.priceService.getLivePrice(existingRun.coin);
+
+      const votingRound = await this.prisma.$transaction(async (tx) => {
+        const run = await tx.run.findUniqueOrThrow({ where: { id: runId } });
+
+        if (run.status !== RunStatus.ACTIVE) {
+          throw new AppError('Run is not active', 400);
+        }
+
+        return this.openVotingRound(tx, run, round, livePrice);
       });
 
+      this.publishRunUpdate({ ...existingRun, currentRound: round });
+      await this.publishVoteUpdate(runId, round);
+
       logger.info(`Voting round created: ${runId} - Round ${round}`);
       return votingRound;
     } catch (error) {
@@ -383,6 +505,111 @@ export class RunService {
     }
   }
 
+  /**
+   * Insert a voting round with fresh chaos modifiers and make it the run's current round
+   * The market price is fetched by the caller so no network call happens inside the transaction.
+   */
+  private async openVotingRound(
+    tx: Prisma.TransactionClient,
+    run: Run,
+    round: number,
+    { price: currentPrice, change24h: priceChange24h }: LivePrice
+  ): Promise<VotingRound> {
+    const chaosModifiers = generateChaosModifiers();
+
+    const votingRound = await tx.votingRound.create({
+      data: {
+        runId: run.id,
+        round,
+        leverage: chaosModifiers.leverage,
+        positionSize: chaosModifiers.positionSize,
+        currentPrice,
+        priceChange24h,
+        timeRemaining: run.votingInterval * 60, // Convert to seconds
+      },
+    });
+
+    await tx.run.update({
+      where: { id: run.id },
+      data: { currentRound: round },
+    });
+
+    return votingRound;
+  }
+
+  /**
+   * Move a run between lifecycle states inside a transaction
+   * The update is guarded on the expected current status so concurrent callers
+   * (admin route and scheduler) cannot both perform the same transition.
+   */
+  private async transitionRun(
+    tx: Prisma.TransactionClient,
+    runId: string,
+    from: RunStatus,
+    to: RunStatus,
+    data: Prisma.RunUpdateManyMutationInput = {}
+  ): Promise<Run> {
+    assertTransition(from, to);
+
+    const { count } = await tx.run.updateMany({
+      where: { id: runId, status: from },
+      data: { ...data, status: to },
+    });
+
+    if (count === 0) {
+      throw new AppError(`Run ${runId} is no longer ${from}`, 409);
+    }
+
+    logger.info(`Run ${runId} transitioned ${from} → ${to}`);
+    return tx.run.findUniqueOrThrow({ where: { id: runId } });
+  }
+
+  /**
+   * Close a voting round so no more votes are accepted
+   */
+  async closeVotingRound(runId: string, round: number): Promise<VotingRound> {
+    try {
+      const votingRound = await this.prisma.votingRound.findUnique({
+        where: {
+          runId_round: {
+            runId,
+            round,
+          },
+        },
+      });
+
+      if (!votingRound) {
+        throw new AppError('Voting round not found', 404);
+      }
+
+      if (votingRound.status !== RoundStatus.OPEN) {
+        throw new AppError('Voting round is not open', 400);
+      }
+
+      const closedRound = await this.prisma.votingRound.update({
+        where: {
+          runId_round: {
+            runId,
+            round,
+          },
+        },
+        data: {
+          status: RoundStatus.CLOSED,
+          timeRemaining: 0,
+          closedAt: new Date(),
+        },
+      });
+
+      await this.publishVoteUpdate(runId, round);
+
+      logger.info(`Voting round closed: ${runId} - Round ${round}`);
+      return closedRound;
+    } catch (error) {
+      logger.error('Error closing voting round:', error);
+      throw error;
+    }
+  }
+
   /**
    * Cast a vote
    */
@@ -449,6 +676,8 @@ export class RunService {
         },
       });
 
+      await this.publishVoteUpdate(runId, round);
+
       logger.info(`Vote cast: User ${userId} voted ${choice} in run ${runId} round ${round}`);
     } catch (error) {
       logger.error('Error casting vote:', error);
@@ -479,88 +708,512 @@ export class RunService {
         throw new AppError('Voting round not found', 404);
       }
 
-      // Get vote distribution
-      const votes = await this.prisma.vote.findMany({
-        where: {
-          runId,
+      // Tally votes with the run's strategy to determine the trade direction
+      const voteDistribution = await this.tallyRound(run, round);
+      const direction = voteDistribution.winner as string;
+
+      // Enter at the live market price; the position is held until the next round boundary
+      const { price: livePrice } = await this.priceService.getLivePrice(run.coin);
+
+      // Position notional = chaos position size of the pool × chaos leverage
+      const positionSize = calculatePositionSize(run.totalPool, votingRound.positionSize);
+      const notionalUsd = (positionSize / 100) * votingRound.leverage;
+
+      // Claim the round with a PENDING trade before opening the position, so concurrent
+      // callers cannot both open one and an opened position always has a trade row
+      const claimed = await this.claimTrade(run, round, {
+        direction: direction as any,
+        leverage: votingRound.leverage,
+        positionSize: votingRound.positionSize,
+        entryPrice: livePrice,
+        pnl: 0,
+        pnlPercentage: 0,
+        status: direction === 'SKIP' ? TradeStatus.EXECUTED : TradeStatus.PENDING,
+      });
+
+      if (!claimed.isNew) {
+        return claimed.trade;
+      }
+
+      let entryPrice = livePrice;
+      let baseAmount: number | undefined;
+      let openTxId: string | undefined;
+
+      if (direction !== 'SKIP') {
+        const result = await this.driftService.executeTrade({
+          marketSymbol: this.getMarketSymbol(run.coin),
+          direction: direction.toLowerCase() as 'long' | 'short',
+          baseAmount: notionalUsd / livePrice,
+          leverage: votingRound.leverage,
+        });
+
+        if (!result.success) {
+          // Nothing was opened - release the round so the execution can be retried
+          await this.prisma.trade.delete({ where: { id: claimed.trade.id } });
+          throw new AppError(`Failed to open Drift position: ${result.error || 'unknown error'}`, 502);
+        }
+
+        if (result.fillUnknown) {
+          // The order landed but its fill is unknown - keep the claim so the round is never opened twice
+          await this.prisma.trade.update({
+            where: { id: claimed.trade.id },
+            data: { openTxId: result.transactionId },
+          });
+          await this.flagForAttention(runId);
+          throw new AppError(`Drift order ${result.transactionId} for run ${runId} round ${round} landed but its fill is unknown`, 502);
+        }
+
+        entryPrice = result.entryPrice || livePrice;
+        baseAmount = result.baseAmount ?? notionalUsd / livePrice;
+        openTxId = result.transactionId;
+      }
+
+      const executedAt = new Date();
+
+      let trade: Trade;
+      try {
+        [trade] = await this.prisma.$transaction([
+          this.prisma.trade.update({
+            where: { id: claimed.trade.id },
+            data: {
+              status: TradeStatus.EXECUTED,
+              entryPrice,
+              baseAmount,
+              openTxId,
+              executedAt,
+            },
+          }),
+          // Update voting round with vote distribution
+          this.prisma.votingRound.update({
+            where: {
+              runId_round: {
+                runId,
+                round,
+              },
+            },
+            data: {
+              voteDistribution: voteDistribution as unknown as Prisma.InputJsonObject,
+              status: RoundStatus.EXECUTING,
+              executedAt,
+            },
+          }),
+        ]);
+      } catch (error) {
+        // The position is open but unrecorded - leave the PENDING trade for an operator
+        if (direction !== 'SKIP') {
+          logger.error(`Drift position opened for run ${runId} round ${round} but not recorded (tx ${openTxId})`);
+          await this.flagForAttention(runId);
+        }
+        throw error;
+      }
+
+      this.wsService.broadcastTradeUpdate(runId, { runId, trade: trade as unknown as TradeType });
+
+      logger.info(`Trade executed: ${runId} - Round ${round} - ${direction} @ ${entryPrice}${openTxId ? ` (tx ${openTxId})` : ''}`);
+      return trade;
+    } catch (error) {
+      logger.error('Error executing trade:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Insert the trade for a round, or return the existing one if another execution claimed it
+   * A trade left PENDING past STALE_PENDING_TRADE_MS was interrupted mid-open: its Drift position
+   * may or may not exist, so the run is flagged for operator attention
+   */
+  private async claimTrade(
+    run: Run,
+    round: number,
+    data: Omit<Prisma.TradeUncheckedCreateInput, 'runId' | 'round'>
+  ): Promise<{ trade: Trade; isNew: boolean }> {
+    try {
+      const trade = await this.prisma.trade.create({
+        data: { ...data, runId: run.id, round },
+      });
+      return { trade, isNew: true };
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error;
+      }
+    }
+
+    const existingTrade = await this.prisma.trade.findUniqueOrThrow({
+      where: {
+        runId_round: {
+          runId: run.id,
           round,
         },
-      });
+      },
+    });
+
+    if (existingTrade.status === TradeStatus.PENDING) {
+      if (Date.now() - existingTrade.executedAt.getTime() > this.STALE_PENDING_TRADE_MS) {
+        await this.flagForAttention(run.id);
+      }
+      throw new AppError(`Trade for run ${run.id} round ${round} is still being opened`, 409);
+    }
+
+    logger.warn(`Trade already executed for run ${run.id} round ${round}, skipping`);
+    return { trade: existingTrade, isNew: false };
+  }
 
-      const voteDistribution = {
-        long: votes.filter(v => v.choice === 'LONG').length,
-        short: votes.filter(v => v.choice === 'SHORT').length,
-        skip: votes.filter(v => v.choice === 'SKIP').length,
-      };
+  /**
+   * Move an executed trade to CLOSING before reducing its Drift position
+   * The shared position must never be reduced twice for one trade, so a trade already CLOSING
+   * (interrupted mid-close, or closed with an unknown fill) flags the run instead of closing again
+   */
+  private async claimTradeClose(trade: Trade): Promise<void> {
+    const { count } = await this.prisma.trade.updateMany({
+      where: { id: trade.id, status: TradeStatus.EXECUTED },
+      data: { status: TradeStatus.CLOSING },
+    });
+
+    if (count === 0) {
+      await this.flagForAttention(trade.runId);
+      throw new AppError(`Trade for run ${trade.runId} round ${trade.round} is already being closed`, 409);
+    }
+  }
 
-      // Determine trade direction
-      let direction = 'SKIP';
-      if (voteDistribution.long > voteDistribution.short && voteDistribution.long > voteDistribution.skip) {
-        direction = 'LONG';
-      } else if (voteDistribution.short > voteDistribution.long && voteDistribution.short > voteDistribution.skip) {
-        direction = 'SHORT';
+  /**
+   * Flag a run whose trading state needs reconciling by an operator
+   */
+  private async flagForAttention(runId: string): Promise<void> {
+    try {
+      await this.prisma.run.update({
+        where: { id: runId },
+        data: { needsAttention: true },
+      });
+    } catch (error) {
+      logger.error(`Failed to flag run ${runId} for attention:`, error);
+    }
+  }
+
+  /**
+   * Settle the open trade for a round at the live market price
+   */
+  async settleTrade(runId: string, round: number): Promise<Trade> {
+    try {
+      const run = await this.prisma.run.findUnique({ where: { id: runId } });
+      if (!run) {
+        throw new AppError('Run not found', 404);
       }
 
-      // Update voting round with vote distribution
-      await this.prisma.votingRound.update({
+      const trade = await this.prisma.trade.findFirst({
         where: {
-          runId_round: {
-            runId,
-            round,
-          },
-        },
-        data: {
-          voteDistribution,
-          status: RoundStatus.EXECUTING,
+          runId,
+          round,
         },
       });
 
-      // Execute trade (mock for now)
-      const entryPrice = Number(votingRound.currentPrice);
-      const exitPrice = direction === 'SKIP' ? entryPrice : entryPrice * (1 + (Math.random() - 0.5) * 0.1); // Random price change
-      
-      const positionSize = calculatePositionSize(run.totalPool, votingRound.positionSize);
-      const pnl = direction === 'SKIP' ? 0 : calculatePotentialPnL(
+      if (!trade) {
+        throw new AppError('Trade not found', 404);
+      }
+
+      if (trade.settledAt) {
+        return trade;
+      }
+
+      if (trade.status === TradeStatus.PENDING) {
+        throw new AppError(`Trade for run ${runId} round ${round} was never confirmed open`, 409);
+      }
+
+      if (trade.direction !== 'SKIP') {
+        await this.claimTradeClose(trade);
+      }
+
+      const entryPrice = Number(trade.entryPrice);
+      const { price: livePrice } = await this.priceService.getLivePrice(run.coin);
+      let exitPrice = livePrice;
+      let closeTxId: string | undefined;
+
+      if (trade.direction !== 'SKIP') {
+        // Close exactly this trade's size; trades recorded without one fall back to the size requested at open
+        const baseAmount = trade.baseAmount !== null
+          ? Number(trade.baseAmount)
+          : (calculatePositionSize(run.totalPool, trade.positionSize) / 100) * trade.leverage / entryPrice;
+
+        const result = await this.driftService.reducePosition(
+          this.getMarketSymbol(run.coin),
+          trade.direction.toLowerCase() as 'long' | 'short',
+          baseAmount
+        );
+
+        if (!result.success) {
+          // Nothing was reduced - release the claim so the settlement can be retried
+          await this.prisma.trade.update({
+            where: { id: trade.id },
+            data: { status: TradeStatus.EXECUTED },
+          });
+          throw new AppError(`Failed to close Drift position: ${result.error || 'unknown error'}`, 502);
+        }
+
+        if (result.fillUnknown) {
+          // The reduce landed but its fill is unknown - keep the claim so the position is never reduced twice
+          await this.prisma.trade.update({
+            where: { id: trade.id },
+            data: { closeTxId: result.transactionId },
+          });
+          await this.flagForAttention(runId);
+          throw new AppError(`Drift order ${result.transactionId} closing run ${runId} round ${round} landed but its fill is unknown`, 502);
+        }
+
+        exitPrice = result.exitPrice || livePrice;
+        closeTxId = result.transactionId;
+      }
+
+      // Only one position is open at a time, so the pool is unchanged since execution
+      const positionSize = calculatePositionSize(run.totalPool, trade.positionSize);
+      const pnl = trade.direction === 'SKIP' ? 0 : calculatePotentialPnL(
         entryPrice,
         exitPrice,
         positionSize,
-        votingRound.leverage,
-        direction.toLowerCase() as 'long' | 'short'
+        trade.leverage,
+        trade.direction.toLowerCase() as 'long' | 'short'
       );
 
-      const trade = await this.prisma.trade.create({
-        data: {
-          runId,
-          round,
-          direction: direction as any,
-          leverage: votingRound.leverage,
-          positionSize: votingRound.positionSize,
-          entryPrice,
-          exitPrice: direction !== 'SKIP' ? exitPrice : null,
-          pnl,
-          pnlPercentage: run.totalPool > 0 ? (pnl / run.totalPool) * 100 : 0,
-          executedAt: new Date(),
-        },
-      });
+      // Grade every vote of the round against the realized price move
+      const votes = await this.prisma.vote.findMany({ where: { runId, round } });
+      const gradedVotes = votes.map(vote => ({
+        userId: vote.userId,
+        isCorrect: isVoteCorrect(vote.choice as VoteChoice, entryPrice, exitPrice),
+      }));
+
+      // Voting in the previous round as well counts as consecutive participation
+      const previousVoters = new Set(
+        round > 1 && votes.length > 0
+          ? (await this.prisma.vote.findMany({
+              where: { runId, round: round - 1 },
+              select: { userId: true },
+            })).map(v => v.userId)
+          : []
+      );
+      const voteXp = gradedVotes.map(({ userId, isCorrect }) => ({
+        userId,
+        amount: calculateVoteXp(isCorrect, previousVoters.has(userId)),
+        reason: `Round ${round} vote (${isCorrect ? 'correct' : 'incorrect'})`,
+      }));
+
+      const settledAt = new Date();
+      const [settledTrade, updatedRun] = await this.prisma.$transaction([
+        this.prisma.trade.update({
+          where: { id: trade.id },
+          data: {
+            exitPrice,
+            pnl,
+            pnlPercentage: run.totalPool > 0 ? (pnl / run.totalPool) * 100 : 0,
+            closeTxId,
+            status: TradeStatus.SETTLED,
+            settledAt,
+          },
+        }),
+        // Update run total pool
+        this.prisma.run.update({
+          where: { id: runId },
+          data: {
+            totalPool: { increment: pnl },
+          },
+        }),
+        this.prisma.votingRound.update({
+          where: {
+            runId_round: {
+              runId,
+              round,
+            },
+          },
+          data: {
+            status: RoundStatus.SETTLED,
+          },
+        }),
+        // Vote counters are updated with the settlement so a round is never graded twice
+        ...gradedVotes.map(({ userId, isCorrect }) =>
+          this.prisma.runParticipant.updateMany({
+            where: { runId, userId },
+            data: {
+              totalVotes: { increment: 1 },
+              votesCorrect: { increment: isCorrect ? 1 : 0 },
+            },
+          })
+        ),
+        // So is vote XP, so it is never lost or granted twice
+        ...voteXp.flatMap(({ userId, amount, reason }) => [
+          this.prisma.xpHistory.create({
+            data: { userId, amount, reason, runId },
+          }),
+          this.prisma.user.update({
+            where: { id: userId },
+            data: { xp: { increment: amount } },
+          }),
+        ]),
+      ]);
 
-      // Update run total pool
-      await this.prisma.run.update({
-        where: { id: runId },
-        data: {
-          totalPool: run.totalPool + pnl,
-        },
-      });
+      this.wsService.broadcastTradeUpdate(runId, { runId, trade: settledTrade as unknown as TradeType });
+      this.publishRunUpdate(updatedRun);
 
-      logger.info(`Trade executed: ${runId} - Round ${round} - ${direction} - PnL: ${pnl}`);
-      return trade;
+      logger.info(`Trade settled: ${runId} - Round ${round} - ${trade.direction} ${entryPrice} → ${exitPrice} - PnL: ${pnl}`);
+
+      await this.syncRoundVoteStats(run, gradedVotes.map(v => v.userId));
+
+      return settledTrade;
     } catch (error) {
-      logger.error('Error executing trade:', error);
+      logger.error('Error settling trade:', error);
       throw error;
     }
   }
 
   /**
-   * End a run
+   * Queue the on-chain vote stats sync for the voters of a graded round
+   * The transaction tracker sends the vote stats transactions, so the scheduler never waits on them
+   * Failures are logged so one voter cannot block the run
+   */
+  private async syncRoundVoteStats(run: Run, voterIds: string[]): Promise<void> {
+    if (voterIds.length === 0 || !this.solanaService) {
+      return;
+    }
+
+    const participants = await this.prisma.runParticipant.findMany({
+      where: {
+        runId: run.id,
+        userId: { in: voterIds },
+      },
+      include: { user: true },
+    });
+
+    for (const participant of participants) {
+      try {
+        await this.solanaService.updateVoteStats(
+          run.onChainRunId,
+          participant.user.walletAddress,
+          participant.votesCorrect,
+          participant.totalVotes
+        );
+      } catch (error) {
+        logger.error(`Failed to queue on-chain vote stats for user ${participant.userId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Tally a round's votes with the run's strategy
+   * Only participants can vote, so their deposit and XP are on the run
+   */
+  private async tallyRound(run: RunWithParticipants, round: number): Promise<VoteDistribution> {
+    const votes = await this.prisma.vote.findMany({
+      where: {
+        runId: run.id,
+        round,
+      },
+    });
+
+    const participants = new Map((run.participants || []).map(p => [p.userId, p]));
+    return tallyVotes(
+      votes.map(v => {
+        const participant = participants.get(v.userId);
+        return {
+          choice: v.choice as VoteChoice,
+          weight: getVoteWeight(
+            run.tallyStrategy as TallyStrategy,
+            participant?.depositAmount || 0,
+            participant?.user?.xp || 0
+          ),
+          votedAt: v.votedAt,
+        };
+      }),
+      {
+        strategy: run.tallyStrategy as TallyStrategy,
+        tieBreaker: run.tieBreaker as TieBreaker,
+        supermajorityThreshold: run.supermajorityThreshold,
+      }
+    );
+  }
+
+  /**
+   * Push a run's status, round, pool and lobby countdown to its subscribers
+   * Only sent on changes: clients count the countdown down from the message timestamp
+   */
+  publishRunUpdate(run: Run): void {
+    this.wsService.broadcastRunUpdate(run.id, {
+      runId: run.id,
+      status: run.status as RunStatusType,
+      currentRound: run.currentRound,
+      countdown: run.countdown ?? undefined,
+      totalPool: run.totalPool,
+    });
+  }
+
+  /**
+   * Push a round's live tally and remaining voting time to the run's subscribers
+   * Sent when the round opens and on each vote; clients count the time down from the message timestamp.
+   * Failures are logged so streaming never blocks the run lifecycle
+   */
+  async publishVoteUpdate(runId: string, round: number): Promise<void> {
+    try {
+      const [run, votingRound] = await Promise.all([
+        this.getRunById(runId),
+        this.prisma.votingRound.findUnique({
+          where: {
+            runId_round: {
+              runId,
+              round,
+            },
+          },
+        }),
+      ]);
+
+      if (!run || !votingRound) {
+        return;
+      }
+
+      const roundEndsAt = votingRound.startedAt.getTime() + run.votingInterval * 60 * 1000;
+      const timeRemaining = votingRound.status === RoundStatus.OPEN
+        ? Math.max(0, Math.floor((roundEndsAt - Date.now()) / 1000))
+        : 0;
+
+      this.wsService.broadcastVoteUpdate(runId, {
+        runId,
+        round,
+        voteDistribution: await this.tallyRound(run, round),
+        timeRemaining,
+      });
+    } catch (error) {
+      logger.error(`Failed to publish vote update for run ${runId} round ${round}:`, error);
+    }
+  }
+
+  /**
+   * Get the Drift perp market for a run's coin
+   */
+  private getMarketSymbol(coin: string): string {
+    return `${coin.toUpperCase()}-PERP`;
+  }
+
+  /**
+   * Settle every trade of a run that is still open
+   */
+  async settleOpenTrades(runId: string): Promise<Trade[]> {
+    const openTrades = await this.prisma.trade.findMany({
+      where: {
+        runId,
+        settledAt: null,
+      },
+      orderBy: {
+        round: 'asc',
+      },
+    });
+
+    const settledTrades: Trade[] = [];
+    for (const trade of openTrades) {
+      settledTrades.push(await this.settleTrade(runId, trade.round));
+    }
+
+    return settledTrades;
+  }
+
+  /**
+   * End a run (ACTIVE → SETTLING → COOLDOWN)
+   * Final shares are written and the run is settled on-chain; the scheduler
+   * moves it to ENDED once the cooldown period is over. Calling it on a SETTLING
+   * run resumes an interrupted settlement.
    */
   async endRun(runId: string): Promise<Run> {
     try {
@@ -569,51 +1222,58 @@ export class RunService {
         throw new AppError('Run not found', 404);
       }
 
-      if (run.status !== RunStatus.ACTIVE) {
-        throw new AppError('Run is not active', 400);
+      // A run left in SETTLING by an interrupted settlement (e.g. a failed Drift close) is resumed
+      if (run.status === RunStatus.SETTLING) {
+        logger.warn(`Resuming settlement of run ${runId}`);
+      } else {
+        assertTransition(run.status, RunStatus.SETTLING);
+
+        const settlingRun = await this.prisma.$transaction(async (tx) => {
+          return this.transitionRun(tx, runId, RunStatus.ACTIVE, RunStatus.SETTLING);
+        });
+        this.publishRunUpdate(settlingRun);
+      }
+
+      // Close any position still open so the final pool reflects the market
+      await this.settleOpenTrades(runId);
+      const settledRun = await this.getRunById(runId);
+      if (!settledRun) {
+        throw new AppError('Run not found', 404);
       }
 
       // Calculate final shares for participants
-      const participants = run.participants || [];
-      const totalPnL = run.totalPool - run.startingPool;
+      const participants = settledRun.participants || [];
+      const totalPnL = settledRun.totalPool - settledRun.startingPool;
       const pnlShares = distributePnL(totalPnL, participants);
 
       const participantShares: Array<{ userPubkey: string; shareAmount: number }> = [];
-
-      // Update participants with final shares
-      for (let i = 0; i < participants.length; i++) {
-        const participant = participants[i];
+      const finalShares = participants.map((participant, i) => {
         const finalShare = calculateFinalShare(participant.depositAmount, pnlShares[i]);
-
-        await this.prisma.runParticipant.update({
-          where: {
-            runId_userId: {
-              runId,
-              userId: participant.userId,
-            },
-          },
-          data: {
-            finalShare,
-          },
-        });
+        const isWinner = finalShare > participant.depositAmount;
+        const isPerfect = participant.totalVotes >= settledRun.totalRounds;
 
         // Prepare participant shares for on-chain settlement
-        // NOTE: You need to have wallet addresses stored in your User model
         if (participant.user?.walletAddress) {
           participantShares.push({
             userPubkey: participant.user.walletAddress,
             shareAmount: finalShare / 100, // Convert from cents to USDC
           });
         }
-      }
 
-      // Settle run on-chain (if blockchain is enabled)
-      if (this.solanaService) {
-        const runNumericId = parseInt(runId) || Date.now();
+        return { userId: participant.userId, finalShare, isWinner, isPerfect };
+      });
+
+      // Settle run on-chain (if blockchain is enabled); a resumed settlement leaves an
+      // already recorded settle transaction to the transaction tracker
+      const settleRecorded = await this.prisma.chainTransaction.count({
+        where: { runId, kind: ChainTxKind.SETTLE_RUN },
+      });
+
+      if (this.solanaService && settleRecorded === 0) {
         try {
           const settleTx = await this.solanaService.settleRun(
-            runNumericId,
-            run.totalPool / 100, // Convert from cents to USDC
+            settledRun.onChainRunId,
+            settledRun.totalPool / 100, // Convert from cents to USDC
             participantShares
           );
           logger.info(`Run settled on-chain: ${getExplorerUrl(settleTx)}`);
@@ -623,15 +1283,48 @@ export class RunService {
         }
       }
 
-      const updatedRun = await this.prisma.run.update({
-        where: { id: runId },
-        data: {
-          status: RunStatus.ENDED,
+      const updatedRun = await this.prisma.$transaction(async (tx) => {
+        // Update participants with final shares; run XP is granted with them so it is never lost or granted twice
+        for (const { userId, finalShare, isWinner, isPerfect } of finalShares) {
+          // The run is still SETTLING here, so it is not among the user's completed runs yet
+          const previousRuns = await tx.runParticipant.count({ where: completedRunFilter(userId) });
+          const xpEarned = calculateRunXp(isWinner, isPerfect, previousRuns === 0);
+
+          await tx.runParticipant.update({
+            where: {
+              runId_userId: {
+                runId,
+                userId,
+              },
+            },
+            data: {
+              finalShare,
+              xpEarned,
+            },
+          });
+
+          if (xpEarned > 0) {
+            await tx.xpHistory.create({
+              data: { userId, amount: xpEarned, reason: `Run completed${isWinner ? ' (win)' : ''}`, runId },
+            });
+            await tx.user.update({
+              where: { id: userId },
+              data: { xp: { increment: xpEarned } },
+            });
+          }
+        }
+
+        return this.transitionRun(tx, runId, RunStatus.SETTLING, RunStatus.COOLDOWN, {
           endedAt: new Date(),
-        },
+        });
       });
 
-      logger.info(`Run ended: ${runId}`);
+      this.publishRunUpdate(updatedRun);
+
+      logger.info(`Run ended: ${runId} (cooldown ${config.runCooldownMinutes} minutes)`);
+
+      await this.deliverRunRewards(runId);
+
       return updatedRun;
     } catch (error) {
       logger.error('Error ending run:', error);
@@ -639,6 +1332,81 @@ export class RunService {
     }
   }
 
+  /**
+   * Update stats, award badges and notify every participant of a settled run not rewarded yet
+   * Run XP is granted with the final share; the scheduler retries participants left unrewarded
+   * Failures are logged so one participant cannot block the others
+   */
+  async deliverRunRewards(runId: string): Promise<void> {
+    const participants = await this.prisma.runParticipant.findMany({
+      where: {
+        runId,
+        finalShare: { not: null },
+        rewardedAt: null,
+        run: { status: { in: [RunStatus.COOLDOWN, RunStatus.ENDED] } },
+      },
+    });
+
+    for (const participant of participants) {
+      const { userId, depositAmount, xpEarned } = participant;
+      const finalShare = participant.finalShare!;
+
+      try {
+        const user = await this.userService.updateRunStats(userId);
+        const badges = await this.badgeService.checkAndAwardBadges(userId);
+
+        const message: RunRewardsMessage = {
+          type: WebSocketMessageType.RUN_REWARDS,
+          data: {
+            runId,
+            finalShare,
+            xpEarned,
+            totalXp: user.xp,
+            totalRuns: user.totalRuns,
+            winRate: user.winRate,
+            badges: badges.map(b => b.badge),
+          },
+          timestamp: new Date(),
+        };
+        this.wsService.sendToUser(userId, message);
+
+        const pnl = finalShare - depositAmount;
+        await this.notificationService.notify(userId, {
+          type: NotificationType.RUN_SETTLED,
+          title: 'Run settled',
+          message: `Your final share is ${(finalShare / 100).toFixed(2)} USDC (${pnl >= 0 ? '+' : '-'}${(Math.abs(pnl) / 100).toFixed(2)} USDC)`,
+          data: { runId, finalShare, depositAmount, xpEarned },
+        });
+
+        await this.prisma.runParticipant.update({
+          where: { id: participant.id },
+          data: { rewardedAt: new Date() },
+        });
+      } catch (error) {
+        logger.error(`Failed to reward user ${userId} for run ${runId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Finalize a run after its cooldown period (COOLDOWN → ENDED)
+   */
+  async finalizeRun(runId: string): Promise<Run> {
+    try {
+      const updatedRun = await this.prisma.$transaction(async (tx) => {
+        return this.transitionRun(tx, runId, RunStatus.COOLDOWN, RunStatus.ENDED);
+      });
+
+      this.publishRunUpdate(updatedRun);
+
+      logger.info(`Run finalized: ${runId}`);
+      return updatedRun;
+    } catch (error) {
+      logger.error('Error finalizing run:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get run participants
    */
@@ -676,6 +1444,29 @@ export class RunService {
     }
   }
 
+  /**
+   * Get the blockchain transactions sent for a run, with explorer links
+   */
+  async getRunTransactions(runId: string): Promise<(PublicChainTransaction & { explorerUrl: string | null })[]> {
+    try {
+      const transactions = await this.prisma.chainTransaction.findMany({
+        where: { runId },
+        select: PUBLIC_CHAIN_TX_SELECT,
+        orderBy: {
+          createdAt: 'asc',
+        },
+      });
+
+      return transactions.map(tx => ({
+        ...tx,
+        explorerUrl: tx.signature ? getExplorerUrl(tx.signature, solanaConfig.network) : null,
+      }));
+    } catch (error) {
+      logger.error('Error fetching run transactions:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get current voting round
    */
@@ -4,13 +4,18 @@ import {
   PublicKey, 
   Transaction,
   SystemProgram,
-  TransactionInstruction
+  TransactionInstruction,
+  ComputeBudgetProgram,
+  SignatureStatus,
+  TransactionExpiredBlockheightExceededError
 } from '@solana/web3.js';
-import { AnchorProvider, Wallet, BN } from '@coral-xyz/anchor';
-import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { Wallet, BN } from '@coral-xyz/anchor';
+import { TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { PrismaClient, Prisma, ChainTxKind, ChainTxStatus } from '@prisma/client';
 import { solanaConfig } from '@/utils/config';
 import logger from '@/utils/logger';
 import { AppError } from '@/types';
+import bs58 from 'bs58';
 
 // ParticipantShare type for settle_run instruction
 export interface ParticipantShare {
@@ -26,6 +31,33 @@ function toParticipantShareArgs(share: ParticipantShare) {
   };
 }
 
+// A sent transaction and the blockhash window it can land in
+export interface SentTransaction {
+  signature: string;
+  blockhash: string;
+  lastValidBlockHeight: number;
+}
+
+// A signed transaction whose signature is known before it is sent
+export interface SignedTransaction extends SentTransaction {
+  serialized: Buffer;
+}
+
+// Instruction as stored on a ChainTransaction so it can be rebuilt for a retry
+interface SerializedInstruction {
+  programId: string;
+  keys: Array<{ pubkey: string; isSigner: boolean; isWritable: boolean }>;
+  data: string; // base64
+}
+
+function serializeInstruction(instruction: TransactionInstruction): SerializedInstruction {
+  return {
+    programId: instruction.programId.toString(),
+    keys: instruction.keys.map(key => ({ ...key, pubkey: key.pubkey.toString() })),
+    data: instruction.data.toString('base64'),
+  };
+}
+
 export interface RunData {
   runId: BN;
   authority: PublicKey;
@@ -48,11 +80,13 @@ export interface RunData {
 export class SolanaService {
   private connection: Connection;
   private wallet: Wallet;
-  private provider: AnchorProvider;
   private programId: PublicKey;
   private usdcMint: PublicKey;
 
-  constructor() {
+  /**
+   * @param prisma When provided, every transaction sent is recorded as a ChainTransaction
+   */
+  constructor(private prisma?: PrismaClient) {
     this.connection = new Connection(solanaConfig.rpcUrl, 'confirmed');
     
     if (!solanaConfig.privateKey) {
@@ -73,11 +107,6 @@ export class SolanaService {
 
     const keypair = Keypair.fromSecretKey(keypairData);
     this.wallet = new Wallet(keypair);
-    
-    this.provider = new AnchorProvider(this.connection, this.wallet, {
-      commitment: 'confirmed',
-      preflightCommitment: 'confirmed',
-    });
 
     this.programId = new PublicKey(solanaConfig.programId);
     this.usdcMint = new PublicKey(solanaConfig.usdcMint);
@@ -206,7 +235,7 @@ export class SolanaService {
       });
 
       const tx = new Transaction().add(instruction);
-      const signature = await this.provider.sendAndConfirm(tx);
+      const signature = await this.sendTransaction(ChainTxKind.CREATE_RUN, runId, tx);
 
       logger.info(`✅ Run created on-chain: Run ID ${runId}, TX: ${signature}`);
       logger.info(`   Run PDA: ${runPDA.toString()}`);
@@ -248,7 +277,7 @@ export class SolanaService {
       });
 
       const tx = new Transaction().add(instruction);
-      const signature = await this.provider.sendAndConfirm(tx);
+      const signature = await this.sendTransaction(ChainTxKind.CREATE_VAULT, runId, tx);
 
       logger.info(`✅ Run vault created on-chain: Run ID ${runId}, TX: ${signature}`);
       logger.info(`   Vault PDA: ${runVaultPDA.toString()}`);
@@ -260,28 +289,158 @@ export class SolanaService {
   }
 
   /**
-   * Start a run
-   * NOTE: Not currently used - manual transaction building would be needed
+   * Refund a participant's deposit from the run vault (authority only)
+   * Used when a run is cancelled before it starts
+   */
+  async emergencyWithdraw(runId: number, userPubkey: string, amount: number): Promise<string> {
+    try {
+      const [platformPDA] = this.getPlatformPDA();
+      const [runPDA] = this.getRunPDA(runId);
+      const [runVaultPDA] = this.getRunVaultPDA(runId);
+      const destination = getAssociatedTokenAddressSync(this.usdcMint, new PublicKey(userPubkey));
+
+      // Build instruction for emergency_withdraw
+      // Discriminator: [239,45,203,64,150,73,218,92]
+      const discriminator = Buffer.from([239, 45, 203, 64, 150, 73, 218, 92]);
+
+      const runIdBuf = Buffer.alloc(8);
+      new BN(runId).toArrayLike(Buffer, 'le', 8).copy(runIdBuf);
+
+      // Convert USDC to smallest unit (6 decimals)
+      const amountBuf = Buffer.alloc(8);
+      new BN(Math.floor(amount * 1_000_000)).toArrayLike(Buffer, 'le', 8).copy(amountBuf);
+
+      const data = Buffer.concat([discriminator, runIdBuf, amountBuf]);
+
+      const instruction = new TransactionInstruction({
+        keys: [
+          { pubkey: platformPDA, isSigner: false, isWritable: false },
+          { pubkey: runPDA, isSigner: false, isWritable: false },
+          { pubkey: runVaultPDA, isSigner: false, isWritable: true },
+          { pubkey: destination, isSigner: false, isWritable: true },
+          { pubkey: this.wallet.publicKey, isSigner: true, isWritable: false },
+          { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+        ],
+        programId: this.programId,
+        data,
+      });
+
+      const tx = new Transaction().add(instruction);
+      const signature = await this.sendTransaction(ChainTxKind.REFUND, runId, tx, userPubkey);
+
+      logger.info(`✅ Emergency withdraw on-chain: Run ID ${runId}, ${amount} USDC to ${userPubkey}, TX: ${signature}`);
+      return signature;
+    } catch (error) {
+      logger.error('Error executing emergency withdraw:', error);
+      throw new AppError('Failed to execute emergency withdraw', 500);
+    }
+  }
+
+  /**
+   * Start a run on-chain (closes deposits)
    */
   async startRun(runId: number): Promise<string> {
-    throw new AppError('startRun not implemented with manual transactions', 501);
+    try {
+      const [platformPDA] = this.getPlatformPDA();
+      const [runPDA] = this.getRunPDA(runId);
+
+      // Build instruction for start_run
+      // Discriminator: [72,212,1,91,61,186,2,52]
+      const discriminator = Buffer.from([72, 212, 1, 91, 61, 186, 2, 52]);
+
+      const runIdBuf = Buffer.alloc(8);
+      new BN(runId).toArrayLike(Buffer, 'le', 8).copy(runIdBuf);
+
+      const data = Buffer.concat([discriminator, runIdBuf]);
+
+      const instruction = new TransactionInstruction({
+        keys: [
+          { pubkey: platformPDA, isSigner: false, isWritable: false },
+          { pubkey: runPDA, isSigner: false, isWritable: true },
+          { pubkey: this.wallet.publicKey, isSigner: true, isWritable: false },
+        ],
+        programId: this.programId,
+        data,
+      });
+
+      const tx = new Transaction().add(instruction);
+      const signature = await this.sendTransaction(ChainTxKind.START_RUN, runId, tx);
+
+      logger.info(`✅ Run started on-chain: Run ID ${runId}, TX: ${signature}`);
+      return signature;
+    } catch (error) {
+      logger.error('Error starting run on-chain:', error);
+      throw new AppError('Failed to start run on-chain', 500);
+    }
   }
 
   /**
-   * Settle a run with final P/L
-   * NOTE: Not implemented with manual transactions
+   * Settle a run on-chain with its final balance and each participant's share
    */
   async settleRun(
     runId: number,
     finalBalance: number,
     participantShares: Array<{ userPubkey: string; shareAmount: number }>
   ): Promise<string> {
-    throw new AppError('settleRun not implemented with manual transactions', 501);
+    try {
+      const [platformPDA] = this.getPlatformPDA();
+      const [runPDA] = this.getRunPDA(runId);
+      const [runVaultPDA] = this.getRunVaultPDA(runId);
+      const [platformFeeVaultPDA] = this.getPlatformFeeVaultPDA();
+
+      // Build instruction for settle_run
+      // Discriminator: [131,162,190,83,221,20,93,149]
+      const discriminator = Buffer.from([131, 162, 190, 83, 221, 20, 93, 149]);
+
+      const runIdBuf = Buffer.alloc(8);
+      new BN(runId).toArrayLike(Buffer, 'le', 8).copy(runIdBuf);
+
+      // Convert USDC to smallest unit (6 decimals)
+      const finalBalanceBuf = Buffer.alloc(8);
+      new BN(Math.floor(finalBalance * 1_000_000)).toArrayLike(Buffer, 'le', 8).copy(finalBalanceBuf);
+
+      // Vec<ParticipantShare>: u32 length, then (pubkey, u64) per share
+      const sharesLenBuf = Buffer.alloc(4);
+      sharesLenBuf.writeUInt32LE(participantShares.length, 0);
+
+      const shareBufs = participantShares
+        .map(({ userPubkey, shareAmount }) => toParticipantShareArgs({
+          user: new PublicKey(userPubkey),
+          shareAmount: new BN(Math.floor(shareAmount * 1_000_000)),
+        }))
+        .map(share => Buffer.concat([share.user.toBuffer(), share.shareAmount.toArrayLike(Buffer, 'le', 8)]));
+
+      const data = Buffer.concat([discriminator, runIdBuf, finalBalanceBuf, sharesLenBuf, ...shareBufs]);
+
+      const instruction = new TransactionInstruction({
+        keys: [
+          { pubkey: platformPDA, isSigner: false, isWritable: true },
+          { pubkey: runPDA, isSigner: false, isWritable: true },
+          { pubkey: runVaultPDA, isSigner: false, isWritable: true },
+          { pubkey: platformFeeVaultPDA, isSigner: false, isWritable: true },
+          { pubkey: this.wallet.publicKey, isSigner: true, isWritable: false },
+          { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+        ],
+        programId: this.programId,
+        data,
+      });
+
+      const tx = new Transaction().add(instruction);
+      const signature = await this.sendTransaction(ChainTxKind.SETTLE_RUN, runId, tx);
+
+      logger.info(`✅ Run settled on-chain: Run ID ${runId}, final balance ${finalBalance} USDC, TX: ${signature}`);
+      return signature;
+    } catch (error) {
+      logger.error('Error settling run on-chain:', error);
+      throw new AppError('Failed to settle run on-chain', 500);
+    }
   }
 
   /**
-   * Update vote statistics for a user
-   * NOTE: Not implemented with manual transactions
+   * Update vote statistics for a user (called after each graded voting round)
+   * The transaction is queued for the transaction tracker to send, so grading a round
+   * never waits on one confirmation per voter
+   * @returns ID of the queued ChainTransaction
    */
   async updateVoteStats(
     runId: number,
@@ -289,7 +448,43 @@ export class SolanaService {
     correctVotes: number,
     totalVotes: number
   ): Promise<string> {
-    throw new AppError('updateVoteStats not implemented with manual transactions', 501);
+    try {
+      const user = new PublicKey(userPubkey);
+      const [platformPDA] = this.getPlatformPDA();
+      const [runPDA] = this.getRunPDA(runId);
+      const [participationPDA] = this.getUserParticipationPDA(runId, user);
+
+      // Build instruction for update_vote_stats
+      // Discriminator: [5,215,13,192,133,170,145,87]
+      const discriminator = Buffer.from([5, 215, 13, 192, 133, 170, 145, 87]);
+
+      const runIdBuf = Buffer.alloc(8);
+      new BN(runId).toArrayLike(Buffer, 'le', 8).copy(runIdBuf);
+
+      // Vote counters are u8 on-chain
+      const countsBuf = Buffer.from([Math.min(correctVotes, 255), Math.min(totalVotes, 255)]);
+
+      const data = Buffer.concat([discriminator, runIdBuf, user.toBuffer(), countsBuf]);
+
+      const instruction = new TransactionInstruction({
+        keys: [
+          { pubkey: platformPDA, isSigner: false, isWritable: false },
+          { pubkey: runPDA, isSigner: false, isWritable: false },
+          { pubkey: participationPDA, isSigner: false, isWritable: true },
+          { pubkey: this.wallet.publicKey, isSigner: true, isWritable: false },
+        ],
+        programId: this.programId,
+        data,
+      });
+
+      const recordId = await this.queueTransaction(ChainTxKind.UPDATE_VOTE_STATS, runId, [instruction], userPubkey);
+
+      logger.info(`Vote stats update queued: Run ID ${runId}, ${userPubkey} ${correctVotes}/${totalVotes}`);
+      return recordId;
+    } catch (error) {
+      logger.error('Error updating vote stats:', error);
+      throw new AppError('Failed to update vote stats', 500);
+    }
   }
 
   /**
@@ -326,6 +521,208 @@ export class SolanaService {
     throw new AppError('unpausePlatform not implemented with manual transactions', 501);
   }
 
+  /**
+   * Send and confirm a transaction, recording it against the run with the given on-chain ID
+   * @param subject - Wallet the transaction concerns, for per-participant transactions
+   * The signature is recorded before the transaction is sent: a send or confirmation that errors
+   * without an on-chain failure leaves the record PENDING for the transaction tracker, which
+   * resends only once the blockhash has expired
+   */
+  private async sendTransaction(
+    kind: ChainTxKind,
+    onChainRunId: number,
+    tx: Transaction,
+    subject?: string
+  ): Promise<string> {
+    const recordId = await this.createTransactionRecord(kind, onChainRunId, tx.instructions, subject);
+
+    let sent: SignedTransaction | null = null;
+    let failedOnChain = false;
+    try {
+      sent = await this.signTransaction(tx.instructions, 0);
+      await this.updateTransactionRecord(recordId, {
+        signature: sent.signature,
+        lastValidBlockHeight: sent.lastValidBlockHeight,
+      });
+      await this.submitTransaction(sent);
+
+      const { value: result } = await this.connection.confirmTransaction(sent, 'confirmed');
+      if (result.err) {
+        failedOnChain = true;
+        throw new Error(`Transaction ${sent.signature} failed: ${JSON.stringify(result.err)}`);
+      }
+
+      const { value } = await this.connection.getSignatureStatus(sent.signature);
+      await this.updateTransactionRecord(recordId, {
+        status: ChainTxStatus.CONFIRMED,
+        slot: value?.slot,
+      });
+
+      return sent.signature;
+    } catch (error) {
+      let status: ChainTxStatus = ChainTxStatus.FAILED;
+      if (error instanceof TransactionExpiredBlockheightExceededError) {
+        status = ChainTxStatus.EXPIRED;
+      } else if (sent && !failedOnChain) {
+        status = ChainTxStatus.PENDING;
+      }
+
+      await this.updateTransactionRecord(recordId, {
+        status,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a transaction for the transaction tracker to send
+   */
+  private async queueTransaction(
+    kind: ChainTxKind,
+    onChainRunId: number,
+    instructions: TransactionInstruction[],
+    subject?: string
+  ): Promise<string> {
+    if (!this.prisma) {
+      throw new Error('Queued transactions require a database');
+    }
+
+    const recordId = await this.createTransactionRecord(kind, onChainRunId, instructions, subject, ChainTxStatus.QUEUED);
+    if (!recordId) {
+      throw new Error(`Failed to queue ${kind} transaction`);
+    }
+
+    return recordId;
+  }
+
+  /**
+   * Rebuild a recorded transaction with a fresh blockhash and sign it without sending
+   * The caller records the signature before calling submitTransaction
+   * @param instructions - Instructions as stored on the ChainTransaction
+   * @param attempt - Retry number (0 for a queued transaction's first send), used to scale the priority fee
+   */
+  async signRecordedTransaction(instructions: Prisma.JsonValue, attempt: number): Promise<SignedTransaction> {
+    const rebuilt = (instructions as unknown as SerializedInstruction[]).map(ix => new TransactionInstruction({
+      programId: new PublicKey(ix.programId),
+      keys: ix.keys.map(key => ({ ...key, pubkey: new PublicKey(key.pubkey) })),
+      data: Buffer.from(ix.data, 'base64'),
+    }));
+
+    return this.signTransaction(rebuilt, attempt);
+  }
+
+  /**
+   * Send a signed transaction
+   * An error does not mean the cluster rejected it (the RPC call can time out after accepting it),
+   * so callers keep polling the signature until its blockhash expires
+   */
+  async submitTransaction(signed: SignedTransaction): Promise<void> {
+    await this.connection.sendRawTransaction(signed.serialized, {
+      preflightCommitment: 'confirmed',
+    });
+  }
+
+  /**
+   * Get the status of sent transactions (null for signatures the cluster has not seen)
+   */
+  async getSignatureStatuses(signatures: string[]): Promise<(SignatureStatus | null)[]> {
+    const { value } = await this.connection.getSignatureStatuses(signatures, { searchTransactionHistory: true });
+    return value;
+  }
+
+  /**
+   * Get the current block height
+   */
+  async getBlockHeight(): Promise<number> {
+    return this.connection.getBlockHeight('confirmed');
+  }
+
+  /**
+   * Sign instructions with a fresh blockhash and a priority fee for the given attempt
+   */
+  private async signTransaction(instructions: TransactionInstruction[], attempt: number): Promise<SignedTransaction> {
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+    const priorityFee = Math.min(
+      solanaConfig.priorityFeeMicroLamports * 2 ** attempt,
+      solanaConfig.maxPriorityFeeMicroLamports
+    );
+
+    const tx = new Transaction({ feePayer: this.wallet.publicKey, blockhash, lastValidBlockHeight })
+      .add(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFee }))
+      .add(...instructions);
+
+    const signed = await this.wallet.signTransaction(tx);
+    if (!signed.signature) {
+      throw new Error('Transaction was not signed');
+    }
+
+    return {
+      signature: bs58.encode(signed.signature),
+      blockhash,
+      lastValidBlockHeight,
+      serialized: signed.serialize(),
+    };
+  }
+
+  /**
+   * Store a transaction record, PENDING for a send in progress or QUEUED for the tracker
+   * Failures are logged rather than thrown so bookkeeping never blocks a transaction
+   */
+  private async createTransactionRecord(
+    kind: ChainTxKind,
+    onChainRunId: number,
+    instructions: TransactionInstruction[],
+    subject?: string,
+    status: ChainTxStatus = ChainTxStatus.PENDING
+  ): Promise<string | null> {
+    if (!this.prisma) {
+      return null;
+    }
+
+    try {
+      const run = await this.prisma.run.findUnique({
+        where: { onChainRunId },
+        select: { id: true },
+      });
+
+      const record = await this.prisma.chainTransaction.create({
+        data: {
+          runId: run?.id,
+          kind,
+          subject,
+          status,
+          instructions: instructions.map(serializeInstruction) as unknown as Prisma.InputJsonArray,
+        },
+      });
+      return record.id;
+    } catch (error) {
+      logger.error(`Error recording ${kind} transaction for on-chain run ${onChainRunId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Update a transaction record as it is sent and confirmed
+   */
+  private async updateTransactionRecord(
+    recordId: string | null,
+    data: Prisma.ChainTransactionUpdateInput
+  ): Promise<void> {
+    if (!this.prisma || !recordId) {
+      return;
+    }
+
+    try {
+      await this.prisma.chainTransaction.update({
+        where: { id: recordId },
+        data,
+      });
+    } catch (error) {
+      logger.error(`Error updating transaction record ${recordId}:`, error);
+    }
+  }
+
   /**
    * Get authority public key
    */
@@ -0,0 +1,211 @@
+import { ChainTransaction, ChainTxKind, ChainTxStatus, PrismaClient } from '@prisma/client';
+import { TransactionTrackerService } from './TransactionTrackerService';
+import { SolanaService } from './SolanaService';
+import { solanaConfig } from '@/utils/config';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const INSTRUCTIONS = [{ programId: 'program', keys: [], data: '' }];
+
+// Evaluate the subset of Prisma filters the tracker uses against an in-memory row
+const matches = (row: any, where: any = {}): boolean =>
+  Object.entries(where).every(([key, condition]: [string, any]) => {
+    if (key === 'OR') {
+      return condition.some((branch: any) => matches(row, branch));
+    }
+    if (condition !== null && typeof condition === 'object' && !(condition instanceof Date)) {
+      if ('in' in condition) return condition.in.includes(row[key]);
+      if ('not' in condition) return row[key] !== condition.not;
+      if ('lt' in condition) return row[key] < condition.lt;
+      if ('gt' in condition) return row[key] > condition.gt;
+      return matches(row[key], condition);
+    }
+    return row[key] === condition;
+  });
+
+const createPrisma = () => {
+  const transactions: ChainTransaction[] = [];
+  const runs = new Map<string, { id: string; needsAttention: boolean }>();
+  const participants: Array<{ runId: string; user: { walletAddress: string }; withdrawn: boolean; withdrawnAt: Date | null }> = [];
+
+  const prisma: any = {
+    chainTransaction: {
+      findMany: jest.fn(async ({ where }: any) => transactions.filter(tx => matches(tx, where)).map(tx => ({ ...tx }))),
+      findUnique: jest.fn(async ({ where }: any) => transactions.find(tx => tx.id === where.id) ?? null),
+      count: jest.fn(async ({ where }: any) => transactions.filter(tx => matches(tx, where)).length),
+      update: jest.fn(async ({ where, data }: any) => {
+        const tx = transactions.find(t => t.id === where.id)!;
+        Object.assign(tx, data, { updatedAt: new Date() });
+        return { ...tx };
+      }),
+    },
+    run: {
+      update: jest.fn(async ({ where, data }: any) => Object.assign(runs.get(where.id)!, data)),
+    },
+    runParticipant: {
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const rows = participants.filter(p => matches(p, where));
+        rows.forEach(p => Object.assign(p, data));
+        return { count: rows.length };
+      }),
+    },
+    $transaction: jest.fn(async (callback: (db: unknown) => Promise<unknown>) => callback(prisma)),
+  };
+
+  const addTransaction = (fields: Partial<ChainTransaction>): ChainTransaction => {
+    const runId = fields.runId === undefined ? 'run-1' : fields.runId;
+    if (runId && !runs.has(runId)) {
+      runs.set(runId, { id: runId, needsAttention: false });
+    }
+
+    const tx = {
+      id: `tx-${transactions.length + 1}`,
+      runId,
+      kind: ChainTxKind.START_RUN,
+      subject: null,
+      signature: null,
+      status: ChainTxStatus.PENDING,
+      slot: null,
+      error: null,
+      retries: 0,
+      instructions: INSTRUCTIONS,
+      lastValidBlockHeight: null,
+      createdAt: new Date(Date.now() - 60 * 60 * 1000),
+      updatedAt: new Date(Date.now() - 60 * 60 * 1000),
+      ...fields,
+    } as ChainTransaction;
+    transactions.push(tx);
+    return tx;
+  };
+
+  return { prisma, transactions, runs, participants, addTransaction };
+};
+
+const createSolanaService = () => {
+  let signed = 0;
+  return {
+    getBlockHeight: jest.fn(async () => 1000),
+    getSignatureStatuses: jest.fn(async (signatures: string[]) => signatures.map(() => null as any)),
+    signRecordedTransaction: jest.fn(async () => ({
+      signature: `signature-${++signed}`,
+      blockhash: 'blockhash',
+      lastValidBlockHeight: 1150,
+      serialized: Buffer.alloc(0),
+    })),
+    submitTransaction: jest.fn(async () => undefined),
+  };
+};
+
+describe('TransactionTrackerService', () => {
+  const setup = () => {
+    const db = createPrisma();
+    const solanaService = createSolanaService();
+    const tracker = new TransactionTrackerService(db.prisma as PrismaClient, solanaService as unknown as SolanaService);
+    const tick = () => (tracker as any).processTransactions();
+    return { ...db, solanaService, tracker, tick };
+  };
+
+  it('confirms a pending transaction once the cluster reports it', async () => {
+    const { addTransaction, solanaService, tick } = setup();
+    const tx = addTransaction({ signature: 'sent', lastValidBlockHeight: 1150 });
+    solanaService.getSignatureStatuses.mockResolvedValueOnce([{ slot: 42, confirmationStatus: 'confirmed', err: null }]);
+
+    await tick();
+
+    expect(tx).toMatchObject({ status: ChainTxStatus.CONFIRMED, slot: 42 });
+  });
+
+  it('marks a cancelled run\'s participant refunded only once the refund confirms', async () => {
+    const { addTransaction, participants, solanaService, tick } = setup();
+    participants.push({ runId: 'run-1', user: { walletAddress: 'wallet-1' }, withdrawn: false, withdrawnAt: null });
+    const refund = addTransaction({ kind: ChainTxKind.REFUND, subject: 'wallet-1', signature: 'sent', lastValidBlockHeight: 1150 });
+
+    await tick();
+    expect(participants[0]!.withdrawn).toBe(false);
+
+    solanaService.getSignatureStatuses.mockResolvedValueOnce([{ slot: 42, confirmationStatus: 'confirmed', err: null }]);
+    await tick();
+
+    expect(refund.status).toBe(ChainTxStatus.CONFIRMED);
+    expect(participants[0]!.withdrawn).toBe(true);
+  });
+
+  it('keeps polling a sent transaction until its blockhash expires, then resends it', async () => {
+    const { addTransaction, solanaService, tick } = setup();
+    const tx = addTransaction({ signature: 'sent', lastValidBlockHeight: 1150 });
+
+    await tick();
+    expect(tx.status).toBe(ChainTxStatus.PENDING);
+    expect(solanaService.signRecordedTransaction).not.toHaveBeenCalled();
+
+    solanaService.getBlockHeight.mockResolvedValue(1200);
+    await tick();
+    expect(tx.status).toBe(ChainTxStatus.EXPIRED);
+
+    // Resent once the backoff has passed, with the new signature recorded before sending
+    tx.updatedAt = new Date(Date.now() - solanaConfig.txCheckIntervalMs);
+    solanaService.submitTransaction.mockImplementationOnce(async () => {
+      expect(tx).toMatchObject({ status: ChainTxStatus.PENDING, signature: 'signature-1' });
+    });
+    await tick();
+
+    expect(solanaService.signRecordedTransaction).toHaveBeenCalledWith(INSTRUCTIONS, 1);
+    expect(solanaService.submitTransaction).toHaveBeenCalledTimes(1);
+    expect(tx).toMatchObject({ status: ChainTxStatus.PENDING, signature: 'signature-1', retries: 1, lastValidBlockHeight: 1150, error: null });
+  });
+
+  it('waits for the backoff before resending', async () => {
+    const { addTransaction, solanaService, tick } = setup();
+    addTransaction({ status: ChainTxStatus.FAILED, retries: 2, updatedAt: new Date() });
+
+    await tick();
+
+    expect(solanaService.signRecordedTransaction).not.toHaveBeenCalled();
+  });
+
+  it('keeps a resend whose submission errored pending under its new signature', async () => {
+    const { addTransaction, solanaService, tick } = setup();
+    const tx = addTransaction({ status: ChainTxStatus.FAILED });
+    solanaService.submitTransaction.mockRejectedValueOnce(new Error('socket hang up'));
+
+    await tick();
+
+    expect(tx).toMatchObject({ status: ChainTxStatus.PENDING, signature: 'signature-1', error: 'socket hang up' });
+  });
+
+  it('abandons a transaction after the maximum retries and flags its run', async () => {
+    const { addTransaction, runs, solanaService, tick } = setup();
+    const tx = addTransaction({ status: ChainTxStatus.FAILED, retries: solanaConfig.txMaxRetries, error: 'custom program error' });
+
+    await tick();
+
+    expect(solanaService.signRecordedTransaction).not.toHaveBeenCalled();
+    expect(tx.status).toBe(ChainTxStatus.ABANDONED);
+    expect(tx.error).toContain('custom program error');
+    expect(runs.get('run-1')!.needsAttention).toBe(true);
+  });
+
+  it('abandons a send interrupted before its signature was recorded', async () => {
+    const { addTransaction, runs, tick } = setup();
+    const tx = addTransaction({ signature: null });
+
+    await tick();
+
+    expect(tx.status).toBe(ChainTxStatus.ABANDONED);
+    expect(runs.get('run-1')!.needsAttention).toBe(true);
+  });
+
+  it('requeues an abandoned transaction with a fresh retry budget', async () => {
+    const { addTransaction, runs, tracker } = setup();
+    const tx = addTransaction({ status: ChainTxStatus.ABANDONED, retries: solanaConfig.txMaxRetries });
+    runs.get('run-1')!.needsAttention = true;
+
+    await tracker.requeueTransaction(tx.id);
+
+    expect(tx).toMatchObject({ status: ChainTxStatus.FAILED, retries: 0 });
+    expect(runs.get('run-1')!.needsAttention).toBe(false);
+  });
+});
@@ -0,0 +1,453 @@
+import { PrismaClient, ChainTransaction, ChainTxKind, ChainTxStatus, Run } from '@prisma/client';
+import { SolanaService, SignedTransaction } from './SolanaService';
+import { AppError } from '@/types';
+import logger from '@/utils/logger';
+import { solanaConfig } from '@/utils/config';
+
+/**
+ * Transaction Tracker Service
+ * Keeps recorded Solana transactions and the chain in step:
+ * - Sends queued transactions (vote stats updates) outside the run scheduler
+ * - Polls the status of sent transactions until they confirm, fail or expire
+ * - Marks cancelled-run participants refunded once their refund confirms
+ * - Retries failed and expired transactions with a fresh blockhash and a higher priority fee
+ * - Drops vote stats updates superseded by a newer update for the same wallet
+ * - Abandons transactions after SOLANA_TX_MAX_RETRIES retries and flags their run for operator attention
+ */
+export class TransactionTrackerService {
+  private trackerInterval: NodeJS.Timeout | null = null;
+  private isProcessing: boolean = false;
+  private readonly STATUS_BATCH_SIZE = 256; // getSignatureStatuses limit
+  private readonly STALE_SEND_MS = 2 * 60 * 1000; // records never given a signature (process died mid-send)
+
+  constructor(private prisma: PrismaClient, private solanaService: SolanaService | null) {}
+
+  /**
+   * Start the tracker
+   */
+  start() {
+    if (!this.solanaService) {
+      logger.warn('Transaction tracker not started - blockchain integration disabled');
+      return;
+    }
+
+    if (this.trackerInterval) {
+      logger.warn('Transaction tracker already running');
+      return;
+    }
+
+    logger.info('🔗 Starting transaction tracker service');
+    logger.info(`   Check interval: ${solanaConfig.txCheckIntervalMs / 1000} seconds`);
+    logger.info(`   Max retries: ${solanaConfig.txMaxRetries}`);
+
+    this.processTransactions();
+
+    this.trackerInterval = setInterval(() => {
+      this.processTransactions();
+    }, solanaConfig.txCheckIntervalMs);
+  }
+
+  /**
+   * Stop the tracker
+   */
+  stop() {
+    if (this.trackerInterval) {
+      clearInterval(this.trackerInterval);
+      this.trackerInterval = null;
+      logger.info('Transaction tracker service stopped');
+    }
+  }
+
+  /**
+   * Confirm pending transactions, send queued ones, then retry the ones that did not land
+   */
+  private async processTransactions() {
+    // Skip this tick if the previous one is still running (RPC calls can be slow)
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      await this.checkPendingTransactions();
+      await this.sendQueuedTransactions();
+      await this.retryTransactions();
+    } catch (error) {
+      logger.error('Error processing chain transactions:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Resolve pending transactions to CONFIRMED, FAILED or EXPIRED
+   */
+  private async checkPendingTransactions() {
+    const solanaService = this.solanaService!;
+
+    // A send that never recorded its signature may or may not have landed - leave it to an operator
+    const staleSends = await this.prisma.chainTransaction.findMany({
+      where: {
+        status: ChainTxStatus.PENDING,
+        signature: null,
+        createdAt: { lt: new Date(Date.now() - this.STALE_SEND_MS) },
+      },
+    });
+
+    for (const tx of staleSends) {
+      await this.abandonTransaction(tx, 'Send was interrupted before a signature was recorded');
+    }
+
+    const pending = await this.prisma.chainTransaction.findMany({
+      where: {
+        status: ChainTxStatus.PENDING,
+        signature: { not: null },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: this.STATUS_BATCH_SIZE,
+    });
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    // Read the block height first: a transaction not seen after its last valid height can never land
+    const blockHeight = await solanaService.getBlockHeight();
+    const statuses = await solanaService.getSignatureStatuses(pending.map(tx => tx.signature!));
+
+    for (const [index, tx] of pending.entries()) {
+      const status = statuses[index];
+
+      try {
+        if (status?.err) {
+          await this.prisma.chainTransaction.update({
+            where: { id: tx.id },
+            data: { status: ChainTxStatus.FAILED, error: JSON.stringify(status.err) },
+          });
+          logger.warn(`Chain transaction ${tx.id} (${tx.kind}) failed: ${JSON.stringify(status.err)}`);
+        } else if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+          await this.prisma.$transaction(async (db) => {
+            await db.chainTransaction.update({
+              where: { id: tx.id },
+              data: { status: ChainTxStatus.CONFIRMED, slot: status.slot, error: null },
+            });
+
+            // A refund is only paid out once its transaction confirms
+            if (tx.kind === ChainTxKind.REFUND && tx.runId && tx.subject) {
+              await db.runParticipant.updateMany({
+                where: { runId: tx.runId, user: { walletAddress: tx.subject }, withdrawn: false },
+                data: { withdrawn: true, withdrawnAt: new Date() },
+              });
+            }
+          });
+          logger.info(`Chain transaction ${tx.id} (${tx.kind}) confirmed in slot ${status.slot}`);
+        } else if (!status && tx.lastValidBlockHeight !== null && blockHeight > tx.lastValidBlockHeight) {
+          await this.prisma.chainTransaction.update({
+            where: { id: tx.id },
+            data: { status: ChainTxStatus.EXPIRED, error: 'Blockhash expired before the transaction landed' },
+          });
+          logger.warn(`Chain transaction ${tx.id} (${tx.kind}) expired`);
+        }
+      } catch (error) {
+        logger.error(`Error updating chain transaction ${tx.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Send transactions queued for the tracker, keeping each run's and wallet's order
+   */
+  private async sendQueuedTransactions() {
+    const queued = await this.prisma.chainTransaction.findMany({
+      where: { status: ChainTxStatus.QUEUED },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const tx of queued) {
+      try {
+        if (await this.isSuperseded(tx)) {
+          await this.prisma.chainTransaction.update({
+            where: { id: tx.id },
+            data: { status: ChainTxStatus.SUPERSEDED },
+          });
+          logger.info(`Chain transaction ${tx.id} (${tx.kind}) superseded by a newer update`);
+          continue;
+        }
+
+        if (tx.runId && (await this.hasEarlierUnconfirmed(tx))) {
+          continue;
+        }
+
+        await this.sendQueuedTransaction(tx);
+      } catch (error) {
+        logger.error(`Error sending chain transaction ${tx.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Send a queued transaction for the first time
+   */
+  private async sendQueuedTransaction(tx: ChainTransaction) {
+    let signed: SignedTransaction;
+    try {
+      signed = await this.solanaService!.signRecordedTransaction(tx.instructions, 0);
+    } catch (error) {
+      await this.prisma.chainTransaction.update({
+        where: { id: tx.id },
+        data: {
+          status: ChainTxStatus.FAILED,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+      logger.warn(`Chain transaction ${tx.id} (${tx.kind}) could not be signed:`, error);
+      return;
+    }
+
+    await this.prisma.chainTransaction.update({
+      where: { id: tx.id },
+      data: {
+        status: ChainTxStatus.PENDING,
+        signature: signed.signature,
+        lastValidBlockHeight: signed.lastValidBlockHeight,
+      },
+    });
+
+    await this.submit(tx, signed);
+    logger.info(`Chain transaction ${tx.id} (${tx.kind}) sent: ${signed.signature}`);
+  }
+
+  /**
+   * Resend failed and expired transactions, backing off exponentially between attempts
+   */
+  private async retryTransactions() {
+    const retryable = await this.prisma.chainTransaction.findMany({
+      where: {
+        status: { in: [ChainTxStatus.FAILED, ChainTxStatus.EXPIRED] },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const tx of retryable) {
+      try {
+        if (!tx.instructions) {
+          await this.abandonTransaction(tx, 'Transaction cannot be rebuilt');
+          continue;
+        }
+
+        // Vote stats are absolute counts - replaying an older update would overwrite newer counts
+        if (await this.isSuperseded(tx)) {
+          await this.prisma.chainTransaction.update({
+            where: { id: tx.id },
+            data: { status: ChainTxStatus.SUPERSEDED },
+          });
+          logger.info(`Chain transaction ${tx.id} (${tx.kind}) superseded by a newer update`);
+          continue;
+        }
+
+        if (tx.retries >= solanaConfig.txMaxRetries) {
+          await this.abandonTransaction(tx, `Gave up after ${tx.retries} retries: ${tx.error}`);
+          continue;
+        }
+
+        const backoffMs = solanaConfig.txCheckIntervalMs * 2 ** tx.retries;
+        if (Date.now() - tx.updatedAt.getTime() < backoffMs) {
+          continue;
+        }
+
+        // Keep a run's transactions in order (e.g. the vault needs the run account)
+        if (tx.runId && (await this.hasEarlierUnconfirmed(tx))) {
+          continue;
+        }
+
+        await this.retryTransaction(tx);
+      } catch (error) {
+        logger.error(`Error retrying chain transaction ${tx.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Resend a single transaction
+   */
+  private async retryTransaction(tx: ChainTransaction) {
+    const attempt = tx.retries + 1;
+
+    let signed: SignedTransaction;
+    try {
+      signed = await this.solanaService!.signRecordedTransaction(tx.instructions, attempt);
+    } catch (error) {
+      await this.prisma.chainTransaction.update({
+        where: { id: tx.id },
+        data: {
+          status: ChainTxStatus.FAILED,
+          retries: attempt,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+      logger.warn(`Chain transaction ${tx.id} (${tx.kind}) retry ${attempt} could not be signed:`, error);
+      return;
+    }
+
+    await this.prisma.chainTransaction.update({
+      where: { id: tx.id },
+      data: {
+        status: ChainTxStatus.PENDING,
+        signature: signed.signature,
+        lastValidBlockHeight: signed.lastValidBlockHeight,
+        retries: attempt,
+        error: null,
+      },
+    });
+
+    await this.submit(tx, signed);
+    logger.info(`Chain transaction ${tx.id} (${tx.kind}) resent, attempt ${attempt}: ${signed.signature}`);
+  }
+
+  /**
+   * Send a transaction whose signature is already recorded
+   * A failed send may still have reached the cluster, so the record stays PENDING and its
+   * signature is polled until the blockhash expires; only then is it resent
+   */
+  private async submit(tx: ChainTransaction, signed: SignedTransaction) {
+    try {
+      await this.solanaService!.submitTransaction(signed);
+    } catch (error) {
+      await this.prisma.chainTransaction.update({
+        where: { id: tx.id },
+        data: { error: error instanceof Error ? error.message : String(error) },
+      });
+      logger.warn(`Chain transaction ${tx.id} (${tx.kind}) send errored, polling ${signed.signature} until it expires:`, error);
+    }
+  }
+
+  /**
+   * Check whether an earlier transaction this one depends on has yet to confirm
+   * Run-wide transactions (no subject) are ordered among themselves; a participant's
+   * transactions also wait for earlier ones concerning the same wallet
+   */
+  private async hasEarlierUnconfirmed(tx: ChainTransaction): Promise<boolean> {
+    const count = await this.prisma.chainTransaction.count({
+      where: {
+        runId: tx.runId,
+        createdAt: { lt: tx.createdAt },
+        status: { in: [ChainTxStatus.QUEUED, ChainTxStatus.PENDING, ChainTxStatus.FAILED, ChainTxStatus.EXPIRED] },
+        OR: tx.subject ? [{ subject: null }, { subject: tx.subject }] : [{ subject: null }],
+      },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Check whether a newer vote stats update for the same run and wallet has been recorded
+   */
+  private async isSuperseded(tx: ChainTransaction): Promise<boolean> {
+    if (tx.kind !== ChainTxKind.UPDATE_VOTE_STATS || !tx.runId || !tx.subject) {
+      return false;
+    }
+
+    const count = await this.prisma.chainTransaction.count({
+      where: {
+        runId: tx.runId,
+        kind: tx.kind,
+        subject: tx.subject,
+        createdAt: { gt: tx.createdAt },
+      },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Stop retrying a transaction and flag its run for operator attention
+   */
+  private async abandonTransaction(tx: ChainTransaction, reason: string) {
+    await this.prisma.$transaction(async (db) => {
+      await db.chainTransaction.update({
+        where: { id: tx.id },
+        data: { status: ChainTxStatus.ABANDONED, error: reason },
+      });
+
+      if (tx.runId) {
+        await db.run.update({
+          where: { id: tx.runId },
+          data: { needsAttention: true },
+        });
+      }
+    });
+
+    logger.error(`⚠️  Chain transaction ${tx.id} (${tx.kind}) abandoned${tx.runId ? ` - run ${tx.runId} needs attention` : ''}: ${reason}`);
+  }
+
+  /**
+   * Get runs flagged for operator attention with their unconfirmed transactions
+   */
+  async getRunsNeedingAttention(): Promise<(Run & { chainTransactions: ChainTransaction[] })[]> {
+    try {
+      return await this.prisma.run.findMany({
+        where: { needsAttention: true },
+        include: {
+          chainTransactions: {
+            where: { status: { not: ChainTxStatus.CONFIRMED } },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+        orderBy: { updatedAt: 'desc' },
+      });
+    } catch (error) {
+      logger.error('Error fetching runs needing attention:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Put an abandoned transaction back in the retry queue with a fresh retry budget
+   * The run's attention flag is cleared once none of its transactions are abandoned
+   */
+  async requeueTransaction(transactionId: string): Promise<ChainTransaction> {
+    try {
+      const tx = await this.prisma.chainTransaction.findUnique({
+        where: { id: transactionId },
+      });
+
+      if (!tx) {
+        throw new AppError('Transaction not found', 404);
+      }
+
+      if (tx.status !== ChainTxStatus.ABANDONED) {
+        throw new AppError('Only abandoned transactions can be retried', 409);
+      }
+
+      if (!tx.instructions) {
+        throw new AppError('Transaction cannot be rebuilt', 409);
+      }
+
+      return await this.prisma.$transaction(async (db) => {
+        const requeued = await db.chainTransaction.update({
+          where: { id: transactionId },
+          data: { status: ChainTxStatus.FAILED, retries: 0 },
+        });
+
+        if (tx.runId) {
+          const abandoned = await db.chainTransaction.count({
+            where: { runId: tx.runId, status: ChainTxStatus.ABANDONED },
+          });
+
+          if (abandoned === 0) {
+            await db.run.update({
+              where: { id: tx.runId },
+              data: { needsAttention: false },
+            });
+          }
+        }
+
+        logger.info(`Chain transaction ${transactionId} (${tx.kind}) requeued for retry`);
+        return requeued;
+      });
+    } catch (error) {
+      logger.error('Error requeueing chain transaction:', error);
+      throw error;
+    }
+  }
+}
@@ -1,13 +1,23 @@
-import { PrismaClient, User, Badge, UserBadge, XpHistory } from '@prisma/client';
+import { Prisma, PrismaClient, User, Badge, UserBadge, XpHistory, RunStatus, Role, NotificationType } from '@prisma/client';
 import { CreateUserRequest, UpdateUserRequest, UserStats } from '@/types';
 import { AppError } from '@/types';
-import { checkNewBadges, getXpLevel, getXpForNextLevel, getXpProgress } from '@/utils/xp';
-import logger from '@/utils/logger';
-import jwt, { SignOptions } from 'jsonwebtoken';
+import { getXpLevel, getXpForNextLevel, getXpProgress } from '@/utils/xp';
+import { isReservedUsername } from '@/utils/permissions';
 import { config } from '@/utils/config';
+import logger from '@/utils/logger';
+import { NotificationService } from './NotificationService';
+
+// Participations that count towards a user's run stats: settled runs only, never cancelled or unfinished ones
+export const completedRunFilter = (userId: string): Prisma.RunParticipantWhereInput => ({
+  userId,
+  finalShare: { not: null },
+  run: {
+    status: { in: [RunStatus.COOLDOWN, RunStatus.ENDED] },
+  },
+});
 
 export class UserService {
-  constructor(private prisma: PrismaClient) {}
+  constructor(private prisma: PrismaClient, private notificationService?: NotificationService) {}
 
   /**
    * Create a new user
@@ -29,11 +39,16 @@ export class UserService {
         throw new AppError('User already exists with this wallet address, username, or email', 409);
       }
 
+      if (isReservedUsername(data.username)) {
+        throw new AppError('This username is reserved', 400);
+      }
+
       const user = await this.prisma.user.create({
         data: {
           walletAddress: data.walletAddress,
           username: data.username,
           email: data.email,
+          role: config.adminWalletAddresses.includes(data.walletAddress) ? Role.ADMIN : Role.USER,
         },
       });
 
@@ -73,33 +88,15 @@ export class UserService {
     }
   }
 
-  /**
-   * Generate JWT authentication token for user
-   */
-  async generateAuthToken(userId: string): Promise<string> {
-    try {
-      const payload = {
-        userId,
-        iat: Math.floor(Date.now() / 1000),
-      };
-
-      const token = jwt.sign(payload, config.jwtSecret, {
-        expiresIn: config.jwtExpiresIn as jwt.SignOptions['expiresIn'],
-      });
-
-      logger.info(`JWT token generated for user ${userId}`);
-      return token;
-    } catch (error) {
-      logger.error('Error generating auth token:', error);
-      throw error;
-    }
-  }
-
   /**
    * Update user
    */
   async updateUser(id: string, data: UpdateUserRequest): Promise<User> {
     try {
+      if (data.username && isReservedUsername(data.username)) {
+        throw new AppError('This username is reserved', 400);
+      }
+
       // Check if username is already taken
       if (data.username) {
         const existingUser = await this.prisma.user.findFirst({
@@ -164,9 +161,9 @@ export class UserService {
         throw new AppError('User not found', 404);
       }
 
-      // Get run participation data
+      // Get completed run participation data (same runs as User.totalRuns)
       const runParticipants = await this.prisma.runParticipant.findMany({
-        where: { userId: id },
+        where: completedRunFilter(id),
         include: {
           run: true,
         },
@@ -220,6 +217,31 @@ export class UserService {
     }
   }
 
+  /**
+   * Recompute a user's total runs and win rate from their completed runs
+   */
+  async updateRunStats(userId: string): Promise<User> {
+    try {
+      const completedRuns = await this.prisma.runParticipant.findMany({
+        where: completedRunFilter(userId),
+      });
+
+      const totalRuns = completedRuns.length;
+      const winningRuns = completedRuns.filter(p => p.finalShare! > p.depositAmount).length;
+
+      return await this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          totalRuns,
+          winRate: totalRuns > 0 ? (winningRuns / totalRuns) * 100 : 0,
+        },
+      });
+    } catch (error) {
+      logger.error('Error updating user run stats:', error);
+      throw error;
+    }
+  }
+
   /**
    * Add XP to user
    */
@@ -260,110 +282,106 @@ export class UserService {
   }
 
   /**
-   * Award badge to user
+   * Get user leaderboard
    */
-  async awardBadge(userId: string, badgeId: string): Promise<UserBadge> {
+  async getLeaderboard(limit: number = 10): Promise<User[]> {
     try {
-      // Check if user already has this badge
-      const existingBadge = await this.prisma.userBadge.findUnique({
-        where: {
-          userId_badgeId: {
-            userId,
-            badgeId,
-          },
-        },
-      });
-
-      if (existingBadge) {
-        throw new AppError('User already has this badge', 409);
-      }
-
-      const userBadge = await this.prisma.userBadge.create({
-        data: {
-          userId,
-          badgeId,
-        },
-        include: {
-          badge: true,
-        },
+      return await this.prisma.user.findMany({
+        orderBy: [
+          { xp: 'desc' },
+          { totalRuns: 'desc' },
+        ],
+        take: limit,
       });
-
-      logger.info(`Badge awarded to user ${userId}: ${userBadge.badge.name}`);
-      return userBadge;
     } catch (error) {
-      logger.error('Error awarding badge:', error);
+      logger.error('Error fetching leaderboard:', error);
       throw error;
     }
   }
 
   /**
-   * Check and award new badges
+   * Ban user
    */
-  async checkAndAwardBadges(userId: string): Promise<UserBadge[]> {
+  async banUser(id: string, reason: string, expiresAt?: Date): Promise<User> {
     try {
-      const user = await this.getUserWithDetails(userId);
-      if (!user) {
-        throw new AppError('User not found', 404);
-      }
-
-      const stats = await this.getUserStats(userId);
-      const currentBadgeIds = user.badges.map(ub => ub.badgeId);
-      
-      const newBadges = checkNewBadges(stats, currentBadgeIds);
-      const awardedBadges: UserBadge[] = [];
-
-      for (const badge of newBadges) {
-        try {
-          const userBadge = await this.awardBadge(userId, badge.name);
-          awardedBadges.push(userBadge);
-        } catch (error) {
-          logger.warn(`Failed to award badge ${badge.name} to user ${userId}:`, error);
-        }
-      }
+      const [user] = await this.prisma.$transaction([
+        this.prisma.user.update({
+          where: { id },
+          data: {
+            isBanned: true,
+            banReason: reason,
+            banExpiresAt: expiresAt,
+          },
+        }),
+        // End every session so the user cannot refresh their way back in
+        this.prisma.refreshToken.updateMany({
+          where: {
+            userId: id,
+            revokedAt: null,
+          },
+          data: {
+            revokedAt: new Date(),
+          },
+        }),
+      ]);
+
+      await this.notificationService?.notify(user.id, {
+        type: NotificationType.USER_BANNED,
+        title: 'Account suspended',
+        message: expiresAt
+          ? `Your account is suspended until ${expiresAt.toISOString()}: ${reason}`
+          : `Your account has been suspended: ${reason}`,
+        data: { reason, expiresAt },
+      });
 
-      return awardedBadges;
+      logger.warn(`User banned: ${user.id} (${user.username}) - Reason: ${reason}`);
+      return user;
     } catch (error) {
-      logger.error('Error checking and awarding badges:', error);
+      logger.error('Error banning user:', error);
       throw error;
     }
   }
 
   /**
-   * Get user leaderboard
+   * Assign a role to a user
    */
-  async getLeaderboard(limit: number = 10): Promise<User[]> {
+  async updateUserRole(id: string, role: Role): Promise<User> {
     try {
-      return await this.prisma.user.findMany({
-        orderBy: [
-          { xp: 'desc' },
-          { totalRuns: 'desc' },
-        ],
-        take: limit,
+      const user = await this.prisma.user.update({
+        where: { id },
+        data: { role },
       });
+
+      logger.warn(`User role changed: ${user.id} (${user.username}) is now ${role}`);
+      return user;
     } catch (error) {
-      logger.error('Error fetching leaderboard:', error);
+      logger.error('Error updating user role:', error);
       throw error;
     }
   }
 
   /**
-   * Ban user
+   * Grant ADMIN to the wallets listed in ADMIN_WALLET_ADDRESSES
    */
-  async banUser(id: string, reason: string, expiresAt?: Date): Promise<User> {
+  async syncAdminWallets(): Promise<void> {
     try {
-      const user = await this.prisma.user.update({
-        where: { id },
-        data: {
-          isBanned: true,
-          banReason: reason,
-          banExpiresAt: expiresAt,
+      if (config.adminWalletAddresses.length === 0) {
+        return;
+      }
+
+      const { count } = await this.prisma.user.updateMany({
+        where: {
+          walletAddress: { in: config.adminWalletAddresses },
+          role: { not: Role.ADMIN },
         },
+        data: { role: Role.ADMIN },
       });
 
-      logger.warn(`User banned: ${user.id} (${user.username}) - Reason: ${reason}`);
-      return user;
+      if (count > 0) {
+        logger.warn(`Granted ADMIN role to ${count} configured wallet(s)`);
+      }
     } catch (error) {
-      logger.error('Error banning user:', error);
+      logger.error('Error syncing admin wallets:', error);
       throw error;
     }
   }
@@ -0,0 +1,371 @@
+import { EventEmitter } from 'events';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { WebSocketService } from './WebSocketService';
+import { AuthService } from './AuthService';
+import { InMemoryPubSubAdapter } from './PubSubService';
+import { AppError, JwtPayload, RunStatus, VoteChoice, WebSocketErrorCode, WebSocketMessage, WebSocketMessageType } from '@/types';
+import { castVoteMessageSchema } from '@/utils/validation';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+// Tokens are the user IDs they authenticate; anything else is rejected
+const createAuthService = () => ({
+  verifyAccessToken: jest.fn(async (token: string): Promise<JwtPayload> => {
+    if (!token.startsWith('user-')) {
+      throw new AppError('Invalid token', 401);
+    }
+    return { id: token, userId: token, walletAddress: `${token}-wallet`, username: token, isBanned: false };
+  }),
+});
+
+interface TestClient {
+  ws: WebSocket;
+  messages: WebSocketMessage[];
+  next(type: string): Promise<WebSocketMessage>;
+  send(message: object): void;
+}
+
+// Open a client that records every message and can wait for the next one of a type
+const connect = async (server: Server, query: string = ''): Promise<TestClient> => {
+  const { port } = server.address() as AddressInfo;
+  const ws = new WebSocket(`ws://127.0.0.1:${port}/ws${query}`);
+  const messages: WebSocketMessage[] = [];
+  const waiters: Array<{ type: string; resolve: (message: WebSocketMessage) => void }> = [];
+  let read = 0;
+
+  ws.on('message', (data) => {
+    const message = JSON.parse(data.toString());
+    messages.push(message);
+    const index = waiters.findIndex(w => w.type === message.type);
+    if (index >= 0) {
+      read = messages.length;
+      waiters.splice(index, 1)[0]!.resolve(message);
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    ws.once('open', () => resolve());
+    ws.once('error', reject);
+  });
+
+  return {
+    ws,
+    messages,
+    next: (type) => {
+      const pending = messages.slice(read).find(m => m.type === type);
+      if (pending) {
+        read = messages.indexOf(pending) + 1;
+        return Promise.resolve(pending);
+      }
+      return new Promise(resolve => waiters.push({ type, resolve }));
+    },
+    send: (message) => ws.send(JSON.stringify(message)),
+  };
+};
+
+const listen = async (): Promise<Server> => {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return server;
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+describe('WebSocketService', () => {
+  let server: Server;
+  let wsService: WebSocketService;
+  let authService: ReturnType<typeof createAuthService>;
+  const clients: TestClient[] = [];
+
+  const open = async (query?: string) => {
+    const client = await connect(server, query);
+    clients.push(client);
+    await client.next(WebSocketMessageType.AUTHENTICATED); // welcome message
+    return client;
+  };
+
+  beforeEach(async () => {
+    server = await listen();
+    authService = createAuthService();
+    wsService = new WebSocketService(authService as unknown as AuthService, new InMemoryPubSubAdapter());
+    await wsService.start(server);
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach(client => client.ws.terminate());
+    await wsService.stop();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('authentication', () => {
+    it('binds a socket to the user its token belongs to', async () => {
+      const client = await open();
+
+      client.send({ type: 'AUTHENTICATE', data: { token: 'user-1' } });
+
+      await expect(client.next(WebSocketMessageType.AUTHENTICATED)).resolves.toMatchObject({ data: { userId: 'user-1' } });
+      expect(authService.verifyAccessToken).toHaveBeenCalledWith('user-1');
+    });
+
+    it('rejects an invalid token', async () => {
+      const client = await open();
+
+      client.send({ type: 'AUTHENTICATE', data: { token: 'forged' } });
+
+      await expect(client.next(WebSocketMessageType.ERROR)).resolves.toMatchObject({ data: { error: 'Invalid token' } });
+    });
+
+    it('closes a connection opened with an invalid token', async () => {
+      const client = await open('?token=forged');
+
+      const code = await new Promise(resolve => client.ws.once('close', resolve));
+
+      expect(code).toBe(1008);
+    });
+
+    it('delivers user messages only to that user\'s sockets', async () => {
+      const alice = await open('?token=user-alice');
+      const bob = await open('?token=user-bob');
+      await alice.next(WebSocketMessageType.AUTHENTICATED);
+      await bob.next(WebSocketMessageType.AUTHENTICATED);
+
+      wsService.sendToUser('user-alice', { type: WebSocketMessageType.RUN_REWARDS, data: { runId: 'run-1' }, timestamp: new Date() });
+
+      await expect(alice.next(WebSocketMessageType.RUN_REWARDS)).resolves.toMatchObject({ data: { runId: 'run-1' } });
+      await settle();
+      expect(bob.messages.some(m => m.type === WebSocketMessageType.RUN_REWARDS)).toBe(false);
+    });
+  });
+
+  describe('requests', () => {
+    const vote = { runId: 'run-1', round: 1, choice: VoteChoice.LONG };
+    let castVote: jest.Mock;
+
+    beforeEach(() => {
+      castVote = jest.fn(async (user: JwtPayload, data: any) => ({ ...data, userId: user.userId }));
+      wsService.registerHandler('CAST_VOTE', castVoteMessageSchema, castVote);
+    });
+
+    const authenticated = async () => {
+      const client = await open('?token=user-1');
+      await client.next(WebSocketMessageType.AUTHENTICATED);
+      return client;
+    };
+
+    it('acks a handled request with its result and request ID', async () => {
+      const client = await authenticated();
+
+      client.send({ type: 'CAST_VOTE', requestId: 'req-1', data: vote });
+
+      await expect(client.next(WebSocketMessageType.ACK)).resolves.toMatchObject({
+        data: { requestId: 'req-1', action: 'CAST_VOTE', result: { ...vote, userId: 'user-1' } },
+      });
+    });
+
+    it('rejects requests from unauthenticated sockets', async () => {
+      const client = await open();
+
+      client.send({ type: 'CAST_VOTE', requestId: 'req-1', data: vote });
+
+      await expect(client.next(WebSocketMessageType.ERROR)).resolves.toMatchObject({
+        data: { code: WebSocketErrorCode.UNAUTHENTICATED, requestId: 'req-1', action: 'CAST_VOTE' },
+      });
+      expect(castVote).not.toHaveBeenCalled();
+    });
+
+    it('rejects invalid request data without calling the handler', async () => {
+      const client = await authenticated();
+
+      client.send({ type: 'CAST_VOTE', requestId: 'req-1', data: { ...vote, choice: 'SIDEWAYS' } });
+
+      await expect(client.next(WebSocketMessageType.ERROR)).resolves.toMatchObject({
+        data: { code: WebSocketErrorCode.BAD_REQUEST, requestId: 'req-1' },
+      });
+      expect(castVote).not.toHaveBeenCalled();
+    });
+
+    it('maps handler errors to typed error codes', async () => {
+      castVote.mockRejectedValueOnce(new AppError('Already voted this round', 409));
+      const client = await authenticated();
+
+      client.send({ type: 'CAST_VOTE', requestId: 'req-1', data: vote });
+
+      await expect(client.next(WebSocketMessageType.ERROR)).resolves.toMatchObject({
+        data: { error: 'Already voted this round', code: WebSocketErrorCode.CONFLICT, requestId: 'req-1' },
+      });
+    });
+
+    it('re-verifies the token on every request and drops a session that is no longer valid', async () => {
+      const client = await authenticated();
+      authService.verifyAccessToken.mockRejectedValueOnce(new AppError('User is banned', 403));
+
+      client.send({ type: 'CAST_VOTE', requestId: 'req-1', data: vote });
+      await expect(client.next(WebSocketMessageType.ERROR)).resolves.toMatchObject({
+        data: { code: WebSocketErrorCode.FORBIDDEN, requestId: 'req-1' },
+      });
+
+      client.send({ type: 'CAST_VOTE', requestId: 'req-2', data: vote });
+      await expect(client.next(WebSocketMessageType.ERROR)).resolves.toMatchObject({
+        data: { code: WebSocketErrorCode.UNAUTHENTICATED, requestId: 'req-2' },
+      });
+      expect(castVote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('backplane', () => {
+    const runUpdate = { runId: 'run-1', status: RunStatus.ACTIVE, currentRound: 1, totalPool: 1000 };
+
+    it('fans run events out to subscribers on every instance', async () => {
+      // Two instances sharing a backplane, as if they shared a Redis server
+      const emitter = new EventEmitter();
+      const counters = new Map<string, number>();
+      const otherServer = await listen();
+      const otherService = new WebSocketService(authService as unknown as AuthService, new InMemoryPubSubAdapter(emitter, counters));
+      await otherService.start(otherServer);
+      await wsService.stop();
+      wsService = new WebSocketService(authService as unknown as AuthService, new InMemoryPubSubAdapter(emitter, counters));
+      await wsService.start(server);
+
+      try {
+        const local = await open();
+        const remote = await connect(otherServer);
+        clients.push(remote);
+        local.send({ type: 'SUBSCRIBE_RUN', data: { runId: 'run-1' } });
+        remote.send({ type: 'SUBSCRIBE_RUN', data: { runId: 'run-1' } });
+        await local.next(WebSocketMessageType.SUBSCRIBED);
+        await remote.next(WebSocketMessageType.SUBSCRIBED);
+
+        wsService.broadcastRunUpdate('run-1', runUpdate);
+
+        await expect(local.next(WebSocketMessageType.RUN_UPDATE)).resolves.toMatchObject({ data: runUpdate });
+        await expect(remote.next(WebSocketMessageType.RUN_UPDATE)).resolves.toMatchObject({ data: runUpdate });
+      } finally {
+        await otherService.stop();
+        await new Promise(resolve => otherServer.close(resolve));
+      }
+    });
+
+    it('does not deliver run events to sockets subscribed to other runs', async () => {
+      const subscriber = await open();
+      subscriber.send({ type: 'SUBSCRIBE_RUN', data: { runId: 'run-2' } });
+      await subscriber.next(WebSocketMessageType.SUBSCRIBED);
+
+      wsService.broadcastRunUpdate('run-1', runUpdate);
+      await settle();
+
+      expect(subscriber.messages.some(m => m.type === WebSocketMessageType.RUN_UPDATE)).toBe(false);
+    });
+
+    it('falls back to in-process delivery when the backplane is unreachable', async () => {
+      const unreachable = new InMemoryPubSubAdapter();
+      jest.spyOn(unreachable, 'connect').mockRejectedValue(new Error('ECONNREFUSED'));
+      await wsService.stop();
+      wsService = new WebSocketService(authService as unknown as AuthService, unreachable);
+
+      await expect(wsService.start(server)).resolves.toBeUndefined();
+
+      const subscriber = await open();
+      subscriber.send({ type: 'SUBSCRIBE_RUN', data: { runId: 'run-1' } });
+      await subscriber.next(WebSocketMessageType.SUBSCRIBED);
+      wsService.broadcastRunUpdate('run-1', runUpdate);
+
+      await expect(subscriber.next(WebSocketMessageType.RUN_UPDATE)).resolves.toMatchObject({ data: runUpdate });
+    });
+  });
+
+  describe('sequence numbers and replay', () => {
+    const runUpdate = (totalPool: number, status: RunStatus = RunStatus.ACTIVE) =>
+      ({ runId: 'run-1', status, currentRound: 1, totalPool });
+
+    const subscribe = async (data: object) => {
+      const client = await open();
+      client.send({ type: 'SUBSCRIBE_RUN', data: { runId: 'run-1', ...data } });
+      return { client, subscribed: await client.next(WebSocketMessageType.SUBSCRIBED) };
+    };
+
+    const publish = async (count: number, from: number = 1) => {
+      const watcher = await subscribe({});
+      for (let i = 0; i < count; i++) {
+        wsService.broadcastRunUpdate('run-1', runUpdate(from + i));
+        await watcher.client.next(WebSocketMessageType.RUN_UPDATE);
+      }
+    };
+
+    it('stamps run events with increasing sequence numbers', async () => {
+      const { client, subscribed } = await subscribe({});
+      expect(subscribed).toMatchObject({ data: { runId: 'run-1', seq: 0 } });
+
+      wsService.broadcastRunUpdate('run-1', runUpdate(1));
+      wsService.broadcastRunUpdate('run-1', runUpdate(2));
+
+      await expect(client.next(WebSocketMessageType.RUN_UPDATE)).resolves.toMatchObject({ seq: 1 });
+      await expect(client.next(WebSocketMessageType.RUN_UPDATE)).resolves.toMatchObject({ seq: 2 });
+    });
+
+    it('replays the events a resuming subscriber missed', async () => {
+      await publish(3);
+
+      const { client, subscribed } = await subscribe({ sinceSeq: 1 });
+
+      expect(subscribed).toMatchObject({ data: { seq: 3, replayed: 2 } });
+      await expect(client.next(WebSocketMessageType.RUN_UPDATE)).resolves.toMatchObject({ seq: 2, data: { totalPool: 2 } });
+      await expect(client.next(WebSocketMessageType.RUN_UPDATE)).resolves.toMatchObject({ seq: 3, data: { totalPool: 3 } });
+    });
+
+    it('replays nothing to a subscriber that is up to date', async () => {
+      await publish(2);
+
+      const { client, subscribed } = await subscribe({ sinceSeq: 2 });
+      await settle();
+
+      expect(subscribed).toMatchObject({ data: { seq: 2 } });
+      expect(client.messages.some(m => m.type === WebSocketMessageType.RUN_UPDATE)).toBe(false);
+    });
+
+    it('sends a snapshot when the missed events are no longer buffered', async () => {
+      const snapshot = { id: 'run-1', status: RunStatus.ACTIVE };
+      wsService.setRunSnapshotProvider(async () => snapshot);
+      await publish(2);
+
+      // A sequence number the run never reached (e.g. its counter expired) cannot be replayed from
+      const { client } = await subscribe({ sinceSeq: 5 });
+
+      await expect(client.next(WebSocketMessageType.RUN_SNAPSHOT)).resolves.toMatchObject({
+        data: { runId: 'run-1', seq: 2, run: snapshot },
+      });
+    });
+
+    it('rejects an invalid sinceSeq', async () => {
+      const client = await open();
+
+      client.send({ type: 'SUBSCRIBE_RUN', data: { runId: 'run-1', sinceSeq: -1 } });
+
+      await expect(client.next(WebSocketMessageType.ERROR)).resolves.toMatchObject({
+        data: { error: 'sinceSeq must be a non-negative integer' },
+      });
+    });
+
+    it('expires the counter of a run that has ended', async () => {
+      const pubsub = new InMemoryPubSubAdapter();
+      const expire = jest.spyOn(pubsub, 'expire');
+      await wsService.stop();
+      wsService = new WebSocketService(authService as unknown as AuthService, pubsub);
+      await wsService.start(server);
+
+      const { client } = await subscribe({});
+      wsService.broadcastRunUpdate('run-1', runUpdate(1));
+      await client.next(WebSocketMessageType.RUN_UPDATE);
+      expect(expire).not.toHaveBeenCalled();
+
+      wsService.broadcastRunUpdate('run-1', runUpdate(1, RunStatus.ENDED));
+      await client.next(WebSocketMessageType.RUN_UPDATE);
+
+      expect(expire).toHaveBeenCalledWith(expect.stringContaining('run-1'), expect.any(Number));
+    });
+  });
+});
@@ -1,16 +1,81 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import { Server } from 'http';
+import Joi from 'joi';
 import { config } from '@/utils/config';
 import logger from '@/utils/logger';
-import { WebSocketMessage, WebSocketMessageType, RunUpdateMessage, VoteUpdateMessage, TradeUpdateMessage, ChatMessageUpdateMessage, PriceUpdateMessage } from '@/types';
+import { JwtPayload, WebSocketMessage, WebSocketMessageType, WebSocketErrorCode, AckMessage, ErrorMessage, SubscribedMessage, RunSnapshotMessage, RunStatus, RunUpdateMessage, VoteUpdateMessage, TradeUpdateMessage, ChatMessageUpdateMessage, ChatMessageHiddenMessage, PriceUpdateMessage } from '@/types';
+import { AuthService } from './AuthService';
+import { PubSubAdapter, InMemoryPubSubAdapter } from './PubSubService';
+
+// Backplane channel every instance publishes to and subscribes on
+const BROADCAST_CHANNEL = 'instinct:ws:broadcast';
+
+// Backplane counter key holding a run's latest event sequence number
+const runSeqKey = (runId: string): string => `instinct:ws:seq:${runId}`;
+
+// How long an ended or cancelled run's sequence counter is kept for late resumes
+const RUN_SEQ_TTL_SECONDS = 24 * 60 * 60;
+
+// Who a fanned-out message is for; each instance delivers to its own matching sockets
+type BroadcastTarget =
+  | { kind: 'run'; runId: string }
+  | { kind: 'user'; userId: string }
+  | { kind: 'all' };
+
+interface BroadcastEnvelope {
+  target: BroadcastTarget;
+  message: WebSocketMessage;
+}
+
+/**
+ * Handler for an authenticated client request; its return value is sent back in the ACK
+ */
+export type WebSocketHandler = (user: JwtPayload, data: any) => Promise<any>;
+
+/**
+ * Loads the current state of a run for subscribers too far behind to replay
+ */
+export type RunSnapshotProvider = (runId: string) => Promise<any>;
 
 export class WebSocketService {
   private wss: WebSocketServer | null = null;
   private clients: Map<string, WebSocket> = new Map();
   private userSockets: Map<string, Set<string>> = new Map(); // userId -> Set of socketIds
   private runSubscriptions: Map<string, Set<string>> = new Map(); // runId -> Set of socketIds
+  private socketUsers: Map<string, JwtPayload> = new Map(); // socketId -> verified identity
+  private socketTokens: Map<string, string> = new Map(); // socketId -> access token, re-verified on every request
+  private handlers: Map<string, { schema: Joi.ObjectSchema; handler: WebSocketHandler }> = new Map();
+  private awaitingPong: Set<string> = new Set(); // sockets pinged since their last pong
+  private replayBuffers: Map<string, WebSocketMessage[]> = new Map(); // runId -> recent events, ordered by seq
+  private runSnapshotProvider: RunSnapshotProvider | null = null;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private metrics = {
+    connectionsOpened: 0,
+    connectionsClosed: 0,
+    staleConnectionsReaped: 0,
+    slowConsumersDisconnected: 0,
+    messagesSent: 0,
+    messagesDropped: 0,
+  };
+
+  constructor(private authService: AuthService, private pubsub: PubSubAdapter) {}
+
+  /**
+   * Connect to the pub/sub backplane and start accepting connections on /ws
+   * Realtime is optional: an unreachable backplane falls back to in-process delivery
+   * (this instance's sockets only) instead of keeping the API from booting
+   */
+  public async start(server: Server): Promise<void> {
+    try {
+      await this.pubsub.connect();
+    } catch (error) {
+      logger.warn('Pub/sub backplane unavailable, WebSocket messages reach this instance\'s clients only');
+      this.pubsub = new InMemoryPubSubAdapter();
+      await this.pubsub.connect();
+    }
+
+    await this.pubsub.subscribe(BROADCAST_CHANNEL, (payload) => this.handleBroadcast(payload));
 
-  public start(server: Server): void {
     this.wss = new WebSocketServer({ 
       server,
       path: '/ws',
@@ -19,10 +84,17 @@ export class WebSocketService {
     this.wss.on('connection', (ws: WebSocket, req) => {
       const socketId = this.generateSocketId();
       this.clients.set(socketId, ws);
+      this.metrics.connectionsOpened++;
 
       logger.info(`WebSocket client connected: ${socketId}`);
 
+      ws.on('pong', () => {
+        this.awaitingPong.delete(socketId);
+      });
+
       ws.on('message', (data: Buffer) => {
+        // Any traffic proves the client is still there
+        this.awaitingPong.delete(socketId);
         try {
           const message = JSON.parse(data.toString());
           this.handleMessage(socketId, message);
@@ -49,19 +121,64 @@ export class WebSocketService {
         },
         timestamp: new Date(),
       });
+
+      // Clients may authenticate up front with /ws?token=<jwt>
+      const token = new URL(req.url || '', 'http://localhost').searchParams.get('token');
+      if (token) {
+        void this.handleAuthentication(socketId, { token }, true);
+      }
     });
 
+    this.heartbeatInterval = setInterval(() => this.checkHeartbeats(), config.wsHeartbeatIntervalMs);
+
     logger.info('WebSocket server started');
   }
 
+  /**
+   * Close all connections and the backplane
+   */
+  public async stop(): Promise<void> {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+
+    this.clients.forEach(ws => ws.close(1001, 'Server shutting down'));
+    this.wss?.close();
+    this.wss = null;
+    await this.pubsub.disconnect();
+    logger.info('WebSocket server stopped');
+  }
+
+  /**
+   * Ping every socket; sockets that have not answered the previous ping are terminated
+   */
+  private checkHeartbeats(): void {
+    this.clients.forEach((ws, socketId) => {
+      if (this.awaitingPong.has(socketId)) {
+        logger.warn(`WebSocket client ${socketId} missed heartbeat, terminating`);
+        this.metrics.staleConnectionsReaped++;
+        ws.terminate();
+        return;
+      }
+
+      this.awaitingPong.add(socketId);
+      try {
+        ws.ping();
+      } catch (error) {
+        logger.error(`Error pinging socket ${socketId}:`, error);
+      }
+    });
+  }
+
   private handleMessage(socketId: string, message: any): void {
     try {
       switch (message.type) {
         case 'AUTHENTICATE':
-          this.handleAuthentication(socketId, message.data);
+          void this.handleAuthentication(socketId, message.data);
           break;
         case 'SUBSCRIBE_RUN':
-          this.handleRunSubscription(socketId, message.data);
+          void this.handleRunSubscription(socketId, message.data);
           break;
         case 'UNSUBSCRIBE_RUN':
           this.handleRunUnsubscription(socketId, message.data);
@@ -69,9 +186,16 @@ export class WebSocketService {
         case 'PING':
           this.sendMessage(socketId, { type: WebSocketMessageType.PONG, data: {}, timestamp: new Date() });
           break;
-        default:
+        default: {
+          const registered = this.handlers.get(message.type);
+          if (registered) {
+            void this.handleRequest(socketId, message, registered.schema, registered.handler);
+            break;
+          }
+
           logger.warn(`Unknown message type: ${message.type}`);
           this.sendError(socketId, 'Unknown message type');
+        }
       }
     } catch (error) {
       logger.error('Error handling WebSocket message:', error);
@@ -79,50 +203,240 @@ export class WebSocketService {
     }
   }
 
-  private handleAuthentication(socketId: string, data: any): void {
-    const { userId } = data;
-    
-    if (!userId) {
-      this.sendError(socketId, 'User ID required for authentication');
+  /**
+   * Verify an access token and attach its identity to the socket
+   * @param closeOnFailure - Drop the connection if the token is rejected (used for ?token=)
+   */
+  private async handleAuthentication(socketId: string, data: any, closeOnFailure: boolean = false): Promise<void> {
+    const token = data?.token;
+
+    if (!token) {
+      this.sendError(socketId, 'Token required for authentication');
+      return;
+    }
+
+    let user: JwtPayload;
+    try {
+      user = await this.authService.verifyAccessToken(token);
+    } catch (error: any) {
+      logger.warn(`WebSocket authentication failed on socket ${socketId}: ${error.message}`);
+      this.sendError(socketId, error.statusCode ? error.message : 'Authentication failed');
+      if (closeOnFailure) {
+        this.clients.get(socketId)?.close(1008, 'Authentication failed');
+      }
       return;
     }
 
+    // The socket may have disconnected while the token was being verified
+    if (!this.clients.has(socketId)) {
+      return;
+    }
+
+    // Re-authenticating replaces any identity previously bound to this socket
+    this.detachUser(socketId);
+    this.socketUsers.set(socketId, user);
+    this.socketTokens.set(socketId, token);
+
     // Add socket to user's socket set
-    if (!this.userSockets.has(userId)) {
-      this.userSockets.set(userId, new Set());
+    if (!this.userSockets.has(user.userId)) {
+      this.userSockets.set(user.userId, new Set());
     }
-    this.userSockets.get(userId)!.add(socketId);
+    this.userSockets.get(user.userId)!.add(socketId);
 
-    logger.info(`User ${userId} authenticated on socket ${socketId}`);
+    logger.info(`User ${user.userId} authenticated on socket ${socketId}`);
     
     this.sendMessage(socketId, {
       type: WebSocketMessageType.AUTHENTICATED,
-      data: { userId },
+      data: { userId: user.userId },
       timestamp: new Date(),
     });
   }
 
-  private handleRunSubscription(socketId: string, data: any): void {
-    const { runId } = data;
+  /**
+   * Run a registered handler for an authenticated socket and reply with an ACK or a typed ERROR
+   * Clients may send a requestId, which is echoed back so replies can be matched to requests
+   */
+  private async handleRequest(socketId: string, message: any, schema: Joi.ObjectSchema, handler: WebSocketHandler): Promise<void> {
+    const action: string = message.type;
+    const requestId: string | undefined = message.requestId;
+    const token = this.socketTokens.get(socketId);
+
+    if (!token || !this.socketUsers.has(socketId)) {
+      this.sendError(socketId, 'Authentication required', { code: WebSocketErrorCode.UNAUTHENTICATED, requestId, action });
+      return;
+    }
+
+    // The socket stays bound past the token's lifetime, a logout or a ban, so re-verify on every request
+    let user: JwtPayload;
+    try {
+      user = await this.authService.verifyAccessToken(token);
+    } catch (error: any) {
+      this.detachUser(socketId);
+      this.sendError(socketId, error.statusCode ? `${error.message}, re-authenticate` : 'Authentication failed', {
+        code: error.statusCode === 403 ? WebSocketErrorCode.FORBIDDEN : WebSocketErrorCode.UNAUTHENTICATED,
+        requestId,
+        action,
+      });
+      return;
+    }
+
+    const { error: validationError, value } = schema.validate(message.data || {});
+    if (validationError) {
+      this.sendError(socketId, validationError.details[0].message, { code: WebSocketErrorCode.BAD_REQUEST, requestId, action });
+      return;
+    }
+
+    try {
+      const result = await handler(user, value);
+
+      const ack: AckMessage = {
+        type: WebSocketMessageType.ACK,
+        data: { requestId, action, result },
+        timestamp: new Date(),
+      };
+      this.sendMessage(socketId, ack);
+    } catch (error: any) {
+      if (!error.statusCode) {
+        logger.error(`Error handling ${action} on socket ${socketId}:`, error);
+      }
+      this.sendError(socketId, error.statusCode ? error.message : 'Internal server error', {
+        code: this.getErrorCode(error.statusCode),
+        requestId,
+        action,
+      });
+    }
+  }
+
+  /**
+   * Map an HTTP status code from an AppError to a WebSocket error code
+   */
+  private getErrorCode(statusCode?: number): WebSocketErrorCode {
+    switch (statusCode) {
+      case 400:
+        return WebSocketErrorCode.BAD_REQUEST;
+      case 401:
+        return WebSocketErrorCode.UNAUTHENTICATED;
+      case 403:
+        return WebSocketErrorCode.FORBIDDEN;
+      case 404:
+        return WebSocketErrorCode.NOT_FOUND;
+      case 409:
+        return WebSocketErrorCode.CONFLICT;
+      default:
+        return WebSocketErrorCode.INTERNAL_ERROR;
+    }
+  }
+
+  /**
+   * Unbind a socket from the user it was authenticated as
+   */
+  private detachUser(socketId: string): void {
+    const user = this.socketUsers.get(socketId);
+    if (!user) {
+      return;
+    }
+
+    this.socketUsers.delete(socketId);
+    this.socketTokens.delete(socketId);
+    const sockets = this.userSockets.get(user.userId);
+    if (sockets) {
+      sockets.delete(socketId);
+      if (sockets.size === 0) {
+        this.userSockets.delete(user.userId);
+      }
+    }
+  }
+
+  /**
+   * Subscribe a socket to a run's events
+   * With sinceSeq, events missed since that sequence number are replayed from the buffer,
+   * or a full snapshot is sent if they are no longer buffered
+   */
+  private async handleRunSubscription(socketId: string, data: any): Promise<void> {
+    const { runId, sinceSeq } = data || {};
     
     if (!runId) {
       this.sendError(socketId, 'Run ID required for subscription');
       return;
     }
 
+    if (sinceSeq !== undefined && (!Number.isInteger(sinceSeq) || sinceSeq < 0)) {
+      this.sendError(socketId, 'sinceSeq must be a non-negative integer');
+      return;
+    }
+
     // Add socket to run's subscription set
     if (!this.runSubscriptions.has(runId)) {
       this.runSubscriptions.set(runId, new Set());
     }
     this.runSubscriptions.get(runId)!.add(socketId);
 
-    logger.info(`Socket ${socketId} subscribed to run ${runId}`);
-    
-    this.sendMessage(socketId, {
+    logger.info(`Socket ${socketId} subscribed to run ${runId}${sinceSeq !== undefined ? ` from seq ${sinceSeq}` : ''}`);
+
+    let latestSeq: number;
+    try {
+      latestSeq = await this.pubsub.getCounter(runSeqKey(runId));
+    } catch (error) {
+      logger.error(`Error reading sequence number of run ${runId}:`, error);
+      this.sendError(socketId, 'Error subscribing to run');
+      return;
+    }
+
+    if (sinceSeq === undefined || sinceSeq === latestSeq) {
+      this.sendSubscribed(socketId, runId, latestSeq);
+      return;
+    }
+
+    // Replay only if every event after sinceSeq is still buffered; events published after
+    // latestSeq was read arrive live because the socket is already subscribed
+    const buffer = this.replayBuffers.get(runId) || [];
+    const oldestSeq = buffer.length > 0 ? buffer[0]!.seq! : latestSeq + 1;
+    if (sinceSeq < latestSeq && oldestSeq <= sinceSeq + 1) {
+      const missed = buffer.filter(event => event.seq! > sinceSeq && event.seq! <= latestSeq);
+      this.sendSubscribed(socketId, runId, latestSeq, missed.length);
+      missed.forEach(event => this.sendMessage(socketId, event));
+      return;
+    }
+
+    this.sendSubscribed(socketId, runId, latestSeq);
+    await this.sendRunSnapshot(socketId, runId, latestSeq);
+  }
+
+  private sendSubscribed(socketId: string, runId: string, seq: number, replayed?: number): void {
+    const message: SubscribedMessage = {
       type: WebSocketMessageType.SUBSCRIBED,
-      data: { runId },
+      data: { runId, seq, replayed },
       timestamp: new Date(),
-    });
+    };
+    this.sendMessage(socketId, message);
+  }
+
+  /**
+   * Send a run's current state to a subscriber that is too far behind to replay
+   */
+  private async sendRunSnapshot(socketId: string, runId: string, seq: number): Promise<void> {
+    if (!this.runSnapshotProvider) {
+      this.sendError(socketId, 'Missed events are no longer available, reload the run');
+      return;
+    }
+
+    try {
+      const run = await this.runSnapshotProvider(runId);
+      if (!run) {
+        this.sendError(socketId, 'Run not found');
+        return;
+      }
+
+      const message: RunSnapshotMessage = {
+        type: WebSocketMessageType.RUN_SNAPSHOT,
+        data: { runId, seq, run },
+        timestamp: new Date(),
+      };
+      this.sendMessage(socketId, message);
+    } catch (error) {
+      logger.error(`Error sending snapshot of run ${runId} to socket ${socketId}:`, error);
+      this.sendError(socketId, 'Error loading run snapshot');
+    }
   }
 
   private handleRunUnsubscription(socketId: string, data: any): void {
@@ -136,15 +450,14 @@ export class WebSocketService {
 
   private handleDisconnect(socketId: string): void {
     // Remove from clients
-    this.clients.delete(socketId);
+    if (!this.clients.delete(socketId)) {
+      return;
+    }
+    this.awaitingPong.delete(socketId);
+    this.metrics.connectionsClosed++;
 
     // Remove from user sockets
-    for (const [userId, sockets] of this.userSockets.entries()) {
-      sockets.delete(socketId);
-      if (sockets.size === 0) {
-        this.userSockets.delete(userId);
-      }
-    }
+    this.detachUser(socketId);
 
     // Remove from run subscriptions
     for (const [runId, sockets] of this.runSubscriptions.entries()) {
@@ -157,11 +470,30 @@ export class WebSocketService {
     logger.info(`WebSocket client disconnected: ${socketId}`);
   }
 
+  /**
+   * Send a message to a socket, applying backpressure to slow consumers
+   * Messages are dropped while the socket's send buffer is over the drop limit, and
+   * the socket is disconnected once the buffer exceeds the hard limit
+   */
   private sendMessage(socketId: string, message: WebSocketMessage): void {
     const ws = this.clients.get(socketId);
     if (ws && ws.readyState === WebSocket.OPEN) {
+      if (ws.bufferedAmount > config.wsSendBufferMaxBytes) {
+        logger.warn(`WebSocket client ${socketId} is too slow (${ws.bufferedAmount} bytes buffered), disconnecting`);
+        this.metrics.slowConsumersDisconnected++;
+        this.metrics.messagesDropped++;
+        ws.terminate();
+        return;
+      }
+
+      if (ws.bufferedAmount > config.wsSendBufferDropBytes) {
+        this.metrics.messagesDropped++;
+        return;
+      }
+
       try {
         ws.send(JSON.stringify(message));
+        this.metrics.messagesSent++;
       } catch (error) {
         logger.error(`Error sending message to socket ${socketId}:`, error);
         this.handleDisconnect(socketId);
@@ -169,102 +501,208 @@ export class WebSocketService {
     }
   }
 
-  private sendError(socketId: string, error: string): void {
-    this.sendMessage(socketId, {
+  private sendError(socketId: string, error: string, details: Omit<ErrorMessage['data'], 'error'> = {}): void {
+    const message: ErrorMessage = {
       type: WebSocketMessageType.ERROR,
-      data: { error },
+      data: { error, ...details },
       timestamp: new Date(),
-    });
+    };
+    this.sendMessage(socketId, message);
   }
 
   private generateSocketId(): string {
     return `socket_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  /**
+   * Register a handler for a client message type
+   * Handlers only run for authenticated sockets, with data validated against the schema
+   */
+  public registerHandler(type: string, schema: Joi.ObjectSchema, handler: WebSocketHandler): void {
+    this.handlers.set(type, { schema, handler });
+  }
+
+  /**
+   * Fan a message out to every instance through the backplane
+   * Run-scoped events are stamped with the run's next sequence number first; the counter
+   * of a run that ended or was cancelled is set to expire.
+   * If the backplane is unavailable the message still reaches this instance's sockets
+   */
+  private publish(target: BroadcastTarget, message: WebSocketMessage): void {
+    void (async () => {
+      if (target.kind === 'run') {
+        try {
+          message.seq = await this.pubsub.increment(runSeqKey(target.runId));
+          if (this.isFinalRunUpdate(message)) {
+            await this.pubsub.expire(runSeqKey(target.runId), RUN_SEQ_TTL_SECONDS);
+          }
+        } catch (error) {
+          logger.error(`Error stamping event for run ${target.runId}, sending without seq:`, error);
+        }
+      }
+
+      const envelope: BroadcastEnvelope = { target, message };
+      try {
+        await this.pubsub.publish(BROADCAST_CHANNEL, JSON.stringify(envelope));
+      } catch (error) {
+        logger.error('Error publishing WebSocket broadcast, delivering locally only:', error);
+        this.deliver(envelope);
+      }
+    })();
+  }
+
+  /**
+   * Keep a run event for subscribers that resume with sinceSeq
+   * Buffers of ended or cancelled runs are dropped; late subscribers get a snapshot
+   */
+  private bufferRunEvent(runId: string, message: WebSocketMessage): void {
+    if (this.isFinalRunUpdate(message)) {
+      this.replayBuffers.delete(runId);
+      return;
+    }
+
+    if (message.seq === undefined) {
+      return;
+    }
+
+    const buffer = this.replayBuffers.get(runId) || [];
+    this.replayBuffers.set(runId, buffer);
+
+    // Events published concurrently can arrive slightly out of order
+    let index = buffer.length;
+    while (index > 0 && buffer[index - 1]!.seq! > message.seq) {
+      index--;
+    }
+    buffer.splice(index, 0, message);
+
+    if (buffer.length > config.wsReplayBufferSize) {
+      buffer.splice(0, buffer.length - config.wsReplayBufferSize);
+    }
+  }
+
+  /**
+   * Check whether a run event announces that the run ended or was cancelled
+   */
+  private isFinalRunUpdate(message: WebSocketMessage): boolean {
+    return message.type === WebSocketMessageType.RUN_UPDATE && [RunStatus.ENDED, RunStatus.CANCELLED].includes(message.data.status);
+  }
+
+  /**
+   * Deliver a message received from the backplane
+   */
+  private handleBroadcast(payload: string): void {
+    try {
+      this.deliver(JSON.parse(payload) as BroadcastEnvelope);
+    } catch (error) {
+      logger.error('Error handling WebSocket broadcast:', error);
+    }
+  }
+
+  /**
+   * Send a message to this instance's sockets matching its target
+   */
+  private deliver({ target, message }: BroadcastEnvelope): void {
+    let socketIds: Iterable<string>;
+    switch (target.kind) {
+      case 'run':
+        this.bufferRunEvent(target.runId, message);
+        socketIds = this.runSubscriptions.get(target.runId) || [];
+        break;
+      case 'user':
+        socketIds = this.userSockets.get(target.userId) || [];
+        break;
+      case 'all':
+        socketIds = this.clients.keys();
+        break;
+    }
+
+    // Copy first: a failed send disconnects the socket and mutates the source set
+    const recipients = Array.from(socketIds);
+    recipients.forEach(socketId => {
+      this.sendMessage(socketId, message);
+    });
+
+    if (recipients.length > 0) {
+      logger.debug(`Delivered ${message.type} to ${recipients.length} local sockets`);
+    }
+  }
+
+  /**
+   * Set how run snapshots are loaded for subscribers too far behind to replay
+   */
+  public setRunSnapshotProvider(provider: RunSnapshotProvider): void {
+    this.runSnapshotProvider = provider;
+  }
+
   // Public methods for broadcasting updates
 
   /**
    * Broadcast run update to all subscribers of the run
    */
   public broadcastRunUpdate(runId: string, update: RunUpdateMessage['data']): void {
-    const subscribers = this.runSubscriptions.get(runId);
-    if (subscribers) {
-      const message: RunUpdateMessage = {
-        type: WebSocketMessageType.RUN_UPDATE,
-        data: update,
-        timestamp: new Date(),
-      };
-
-      subscribers.forEach(socketId => {
-        this.sendMessage(socketId, message);
-      });
+    const message: RunUpdateMessage = {
+      type: WebSocketMessageType.RUN_UPDATE,
+      data: update,
+      timestamp: new Date(),
+    };
 
-      logger.info(`Broadcasted run update to ${subscribers.size} subscribers for run ${runId}`);
-    }
+    this.publish({ kind: 'run', runId }, message);
   }
 
   /**
    * Broadcast vote update to all subscribers of the run
    */
   public broadcastVoteUpdate(runId: string, update: VoteUpdateMessage['data']): void {
-    const subscribers = this.runSubscriptions.get(runId);
-    if (subscribers) {
-      const message: VoteUpdateMessage = {
-        type: WebSocketMessageType.VOTE_UPDATE,
-        data: update,
-        timestamp: new Date(),
-      };
-
-      subscribers.forEach(socketId => {
-        this.sendMessage(socketId, message);
-      });
+    const message: VoteUpdateMessage = {
+      type: WebSocketMessageType.VOTE_UPDATE,
+      data: update,
+      timestamp: new Date(),
+    };
 
-      logger.info(`Broadcasted vote update to ${subscribers.size} subscribers for run ${runId}`);
-    }
+    this.publish({ kind: 'run', runId }, message);
   }
 
   /**
    * Broadcast trade update to all subscribers of the run
    */
   public broadcastTradeUpdate(runId: string, update: TradeUpdateMessage['data']): void {
-    const subscribers = this.runSubscriptions.get(runId);
-    if (subscribers) {
-      const message: TradeUpdateMessage = {
-        type: WebSocketMessageType.TRADE_UPDATE,
-        data: update,
-        timestamp: new Date(),
-      };
-
-      subscribers.forEach(socketId => {
-        this.sendMessage(socketId, message);
-      });
+    const message: TradeUpdateMessage = {
+      type: WebSocketMessageType.TRADE_UPDATE,
+      data: update,
+      timestamp: new Date(),
+    };
 
-      logger.info(`Broadcasted trade update to ${subscribers.size} subscribers for run ${runId}`);
-    }
+    this.publish({ kind: 'run', runId }, message);
   }
 
   /**
    * Broadcast chat message to all subscribers of the run
    */
   public broadcastChatMessage(runId: string, update: ChatMessageUpdateMessage['data']): void {
-    const subscribers = this.runSubscriptions.get(runId);
-    if (subscribers) {
-      const message: ChatMessageUpdateMessage = {
-        type: WebSocketMessageType.CHAT_MESSAGE,
-        data: update,
-        timestamp: new Date(),
-      };
+    const message: ChatMessageUpdateMessage = {
+      type: WebSocketMessageType.CHAT_MESSAGE,
+      data: update,
+      timestamp: new Date(),
+    };
 
-      subscribers.forEach(socketId => {
-        this.sendMessage(socketId, message);
-      });
+    this.publish({ kind: 'run', runId }, message);
+  }
 
-      logger.info(`Broadcasted chat message to ${subscribers.size} subscribers for run ${runId}`);
-    }
+  /**
+   * Tell subscribers of the run to drop a message hidden by downvotes (its text is not re-sent)
+   */
+  public broadcastChatMessageHidden(runId: string, update: ChatMessageHiddenMessage['data']): void {
+    const message: ChatMessageHiddenMessage = {
+      type: WebSocketMessageType.CHAT_MESSAGE_HIDDEN,
+      data: update,
+      timestamp: new Date(),
+    };
+
+    this.publish({ kind: 'run', runId }, message);
   }
 
   /**
-   * Broadcast price update to all subscribers
+   * Broadcast price update to all clients
    */
   public broadcastPriceUpdate(update: PriceUpdateMessage['data']): void {
     const message: PriceUpdateMessage = {
@@ -273,38 +711,44 @@ export class WebSocketService {
       timestamp: new Date(),
     };
 
-    this.clients.forEach((ws, socketId) => {
-      this.sendMessage(socketId, message);
-    });
-
-    logger.info(`Broadcasted price update to ${this.clients.size} clients`);
+    this.publish({ kind: 'all' }, message);
   }
 
   /**
-   * Send message to specific user
+   * Send message to every socket of a user, on any instance
    */
   public sendToUser(userId: string, message: WebSocketMessage): void {
-    const sockets = this.userSockets.get(userId);
-    if (sockets) {
-      sockets.forEach(socketId => {
-        this.sendMessage(socketId, message);
-      });
-    }
+    this.publish({ kind: 'user', userId }, message);
   }
 
   /**
-   * Get connection statistics
+   * Get connection statistics for this instance
    */
   public getStats(): {
     totalClients: number;
     totalUsers: number;
     totalRunSubscriptions: number;
+    awaitingPong: number;
+    bufferedBytes: number;
+    connectionsOpened: number;
+    connectionsClosed: number;
+    staleConnectionsReaped: number;
+    slowConsumersDisconnected: number;
+    messagesSent: number;
+    messagesDropped: number;
   } {
+    let bufferedBytes = 0;
+    this.clients.forEach(ws => {
+      bufferedBytes += ws.bufferedAmount;
+    });
+
     return {
       totalClients: this.clients.size,
       totalUsers: this.userSockets.size,
       totalRunSubscriptions: this.runSubscriptions.size,
+      awaitingPong: this.awaitingPong.size,
+      bufferedBytes,
+      ...this.metrics,
     };
   }
 }
-
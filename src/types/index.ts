@@ -1,4 +1,5 @@
 // Core Types for Instinct.fi API
+import { Permission } from '@/utils/permissions';
 
 // JWT Payload
 export interface JwtPayload {
@@ -8,6 +9,8 @@ export interface JwtPayload {
   username: string;
   isBanned: boolean;
   banExpiresAt?: Date;
+  role?: Role;
+  jti?: string;
   iat?: number;
   exp?: number;
 }
@@ -48,6 +51,7 @@ export interface User {
   totalRuns: number;
   winRate: number;
   reputation: number;
+  role: Role;
   isBanned: boolean;
   banReason?: string;
   banExpiresAt?: Date;
@@ -61,6 +65,14 @@ export interface CreateUserRequest {
   email?: string;
 }
 
+export interface UpdateUserRoleRequest {
+  role: Role;
+}
+
+export interface UpdateRolePermissionsRequest {
+  permissions: Permission[];
+}
+
 export interface UpdateUserRequest {
   username?: string;
   email?: string;
@@ -104,6 +116,7 @@ export interface UserBadge {
 // Run Types
 export interface Run {
   id: string;
+  onChainRunId: number; // run_id of the on-chain run account
   status: RunStatus;
   tradingPair: string;
   coin: string;
@@ -117,6 +130,10 @@ export interface Run {
   currentRound: number;
   totalRounds: number;
   countdown?: number;
+  tallyStrategy: TallyStrategy;
+  tieBreaker: TieBreaker;
+  supermajorityThreshold: number;
+  needsAttention: boolean; // trading state or an exhausted chain transaction needs an operator
   startedAt?: Date;
   endedAt?: Date;
   createdAt: Date;
@@ -134,6 +151,9 @@ export interface CreateRunRequest {
   minDeposit?: number;
   maxDeposit?: number;
   maxParticipants?: number;
+  tallyStrategy?: TallyStrategy;
+  tieBreaker?: TieBreaker;
+  supermajorityThreshold?: number;
 }
 
 export interface JoinRunRequest {
@@ -167,6 +187,8 @@ export interface Trade {
   exitPrice?: number;
   pnl: number;
   pnlPercentage: number;
+  openTxId?: string;
+  closeTxId?: string;
   executedAt: Date;
   settledAt?: Date;
 }
@@ -207,6 +229,28 @@ export interface VoteDistribution {
   long: number;
   short: number;
   skip: number;
+  strategy?: TallyStrategy;
+  tieBreaker?: TieBreaker;
+  threshold?: number;
+  weights?: {
+    long: number;
+    short: number;
+    skip: number;
+  };
+  winner?: VoteChoice;
+  tieBroken?: boolean;
+}
+
+// Notification Types
+export interface Notification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: Record<string, any>;
+  readAt?: Date;
+  createdAt: Date;
 }
 
 // Chat Types
@@ -218,7 +262,7 @@ export interface ChatMessage {
   downvotes: number;
   isDeleted: boolean;
   createdAt: Date;
-  user?: User;
+  user?: Pick<User, 'id' | 'username' | 'walletAddress' | 'xp'>;
 }
 
 export interface SendMessageRequest {
@@ -252,6 +296,7 @@ export interface WebSocketMessage {
   type: WebSocketMessageType;
   data: any;
   timestamp: Date;
+  seq?: number; // per-run sequence number, set on run-scoped events
 }
 
 export interface RunUpdateMessage extends WebSocketMessage {
@@ -291,6 +336,15 @@ export interface ChatMessageUpdateMessage extends WebSocketMessage {
   };
 }
 
+export interface ChatMessageHiddenMessage extends WebSocketMessage {
+  type: WebSocketMessageType.CHAT_MESSAGE_HIDDEN;
+  data: {
+    runId: string;
+    messageId: string;
+    downvotes: number;
+  };
+}
+
 export interface PriceUpdateMessage extends WebSocketMessage {
   type: WebSocketMessageType.PRICE_UPDATE;
   data: {
@@ -300,13 +354,97 @@ export interface PriceUpdateMessage extends WebSocketMessage {
   };
 }
 
+export interface NotificationMessage extends WebSocketMessage {
+  type: WebSocketMessageType.NOTIFICATION;
+  data: Notification;
+}
+
+export interface SubscribedMessage extends WebSocketMessage {
+  type: WebSocketMessageType.SUBSCRIBED;
+  data: {
+    runId: string;
+    seq: number; // latest sequence number known for the run
+    replayed?: number; // missed events re-sent after this message
+  };
+}
+
+export interface RunSnapshotMessage extends WebSocketMessage {
+  type: WebSocketMessageType.RUN_SNAPSHOT;
+  data: {
+    runId: string;
+    seq: number; // apply events after this sequence number on top of the snapshot
+    run: any;
+  };
+}
+
+export interface AckMessage extends WebSocketMessage {
+  type: WebSocketMessageType.ACK;
+  data: {
+    requestId?: string;
+    action: string;
+    result: any;
+  };
+}
+
+export interface ErrorMessage extends WebSocketMessage {
+  type: WebSocketMessageType.ERROR;
+  data: {
+    error: string;
+    code?: WebSocketErrorCode;
+    requestId?: string;
+    action?: string;
+  };
+}
+
+export interface RunRewardsMessage extends WebSocketMessage {
+  type: WebSocketMessageType.RUN_REWARDS;
+  data: {
+    runId: string;
+    finalShare: number;
+    xpEarned: number;
+    totalXp: number;
+    totalRuns: number;
+    winRate: number;
+    badges: Badge[];
+  };
+}
+
 // Enums
+export enum Role {
+  USER = 'USER',
+  MODERATOR = 'MODERATOR',
+  OPERATOR = 'OPERATOR',
+  ADMIN = 'ADMIN'
+}
+
+export enum NotificationType {
+  RUN_STARTING = 'RUN_STARTING',
+  ROUND_OPEN = 'ROUND_OPEN',
+  RUN_SETTLED = 'RUN_SETTLED',
+  BADGE_EARNED = 'BADGE_EARNED',
+  USER_BANNED = 'USER_BANNED'
+}
+
 export enum RunStatus {
   WAITING = 'WAITING',
   ACTIVE = 'ACTIVE',
   SETTLING = 'SETTLING',
   COOLDOWN = 'COOLDOWN',
-  ENDED = 'ENDED'
+  ENDED = 'ENDED',
+  CANCELLED = 'CANCELLED'
+}
+
+export enum TallyStrategy {
+  PLURALITY = 'PLURALITY',
+  DEPOSIT_WEIGHTED = 'DEPOSIT_WEIGHTED',
+  XP_WEIGHTED = 'XP_WEIGHTED',
+  SUPERMAJORITY = 'SUPERMAJORITY'
+}
+
+export enum TieBreaker {
+  SKIP = 'SKIP',
+  EARLIEST_VOTE = 'EARLIEST_VOTE',
+  RANDOM = 'RANDOM'
 }
 
 export enum TradeDirection {
@@ -333,35 +471,61 @@ export enum WebSocketMessageType {
   VOTE_UPDATE = 'VOTE_UPDATE',
   TRADE_UPDATE = 'TRADE_UPDATE',
   CHAT_MESSAGE = 'CHAT_MESSAGE',
+  CHAT_MESSAGE_HIDDEN = 'CHAT_MESSAGE_HIDDEN',
   PRICE_UPDATE = 'PRICE_UPDATE',
+  RUN_REWARDS = 'RUN_REWARDS',
+  NOTIFICATION = 'NOTIFICATION',
   ERROR = 'ERROR',
   PONG = 'PONG',
   AUTHENTICATED = 'AUTHENTICATED',
-  SUBSCRIBED = 'SUBSCRIBED'
+  SUBSCRIBED = 'SUBSCRIBED',
+  RUN_SNAPSHOT = 'RUN_SNAPSHOT',
+  ACK = 'ACK'
+}
+
+export enum WebSocketErrorCode {
+  BAD_REQUEST = 'BAD_REQUEST',
+  UNAUTHENTICATED = 'UNAUTHENTICATED',
+  FORBIDDEN = 'FORBIDDEN',
+  NOT_FOUND = 'NOT_FOUND',
+  CONFLICT = 'CONFLICT',
+  INTERNAL_ERROR = 'INTERNAL_ERROR'
 }
 
 // Configuration Types
 export interface AppConfig {
   port: number;
   wsPort: number;
+  wsHeartbeatIntervalMs: number;
+  wsSendBufferDropBytes: number;
+  wsSendBufferMaxBytes: number;
+  wsReplayBufferSize: number;
+  wsPubSubAdapter: 'memory' | 'redis';
   nodeEnv: string;
   apiVersion: string;
   corsOrigin: string;
   jwtSecret: string;
   jwtExpiresIn: string;
+  refreshTokenTtlDays: number;
+  authNonceTtlSeconds: number;
+  adminWalletAddresses: string[];
   bcryptRounds: number;
   rateLimitWindowMs: number;
   rateLimitMaxRequests: number;
   minDepositUsdc: number;
   maxDepositUsdc: number;
   maxParticipantsPerRun: number;
+  minParticipantsPerRun: number;
   platformFeePercentage: number;
   defaultRunDurationMinutes: number;
   defaultVotingIntervalMinutes: number;
+  runCooldownMinutes: number;
   minLeverage: number;
   maxLeverage: number;
   minPositionSizePercent: number;
   maxPositionSizePercent: number;
+  skipVoteTolerancePercent: number;
+  chatDownvoteHideThreshold: number;
 }
 
 // Drift Protocol Types
@@ -6,24 +6,36 @@ dotenv.config();
 export const config: AppConfig = {
   port: parseInt(process.env.PORT || '3001', 10),
   wsPort: parseInt(process.env.WS_PORT || '3002', 10),
+  wsHeartbeatIntervalMs: parseInt(process.env.WS_HEARTBEAT_INTERVAL_MS || '30000', 10), // sockets missing a ping for one interval are dropped
+  wsSendBufferDropBytes: parseInt(process.env.WS_SEND_BUFFER_DROP_BYTES || '262144', 10), // 256 KB: skip messages to slow clients
+  wsSendBufferMaxBytes: parseInt(process.env.WS_SEND_BUFFER_MAX_BYTES || '1048576', 10), // 1 MB: disconnect slow clients
+  wsReplayBufferSize: parseInt(process.env.WS_REPLAY_BUFFER_SIZE || '500', 10), // run events kept for resuming subscribers
+  wsPubSubAdapter: process.env.WS_PUBSUB_ADAPTER === 'redis' ? 'redis' : 'memory', // 'redis' fans WebSocket messages out across instances
   nodeEnv: process.env.NODE_ENV || 'development',
   apiVersion: process.env.API_VERSION || 'v1',
   corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:8081',
   jwtSecret: process.env.JWT_SECRET || 'your-super-secret-jwt-key-here',
-  jwtExpiresIn: process.env.JWT_EXPIRES_IN || '7d',
+  jwtExpiresIn: process.env.JWT_EXPIRES_IN || '15m', // access token lifetime
+  refreshTokenTtlDays: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10),
+  authNonceTtlSeconds: parseInt(process.env.AUTH_NONCE_TTL_SECONDS || '300', 10), // 5 minutes
+  adminWalletAddresses: (process.env.ADMIN_WALLET_ADDRESSES || '').split(',').map(a => a.trim()).filter(Boolean),
   bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS || '12', 10),
   rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
   rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
   minDepositUsdc: parseInt(process.env.MIN_DEPOSIT_USDC || '10', 10),
   maxDepositUsdc: parseInt(process.env.MAX_DEPOSIT_USDC || '100', 10),
   maxParticipantsPerRun: parseInt(process.env.MAX_PARTICIPANTS_PER_RUN || '100', 10),
+  minParticipantsPerRun: parseInt(process.env.MIN_PARTICIPANTS_PER_RUN || '1', 10),
   platformFeePercentage: parseInt(process.env.PLATFORM_FEE_PERCENTAGE || '15', 10),
   defaultRunDurationMinutes: parseInt(process.env.DEFAULT_RUN_DURATION_MINUTES || '120', 10),
   defaultVotingIntervalMinutes: parseInt(process.env.DEFAULT_VOTING_INTERVAL_MINUTES || '10', 10),
+  runCooldownMinutes: parseInt(process.env.RUN_COOLDOWN_MINUTES || '5', 10),
   minLeverage: parseInt(process.env.MIN_LEVERAGE || '1', 10),
   maxLeverage: parseInt(process.env.MAX_LEVERAGE || '20', 10),
   minPositionSizePercent: parseInt(process.env.MIN_POSITION_SIZE_PERCENT || '10', 10),
   maxPositionSizePercent: parseInt(process.env.MAX_POSITION_SIZE_PERCENT || '100', 10),
+  skipVoteTolerancePercent: parseFloat(process.env.SKIP_VOTE_TOLERANCE_PERCENT || '0.1'), // max price move for a SKIP vote to be correct
+  chatDownvoteHideThreshold: parseInt(process.env.CHAT_DOWNVOTE_HIDE_THRESHOLD || '5', 10),
 };
 
 export const driftConfig = {
@@ -60,6 +72,18 @@ export const solanaConfig = {
   privateKey: process.env.SOLANA_PRIVATE_KEY || '',
   programId: process.env.SOLANA_PROGRAM_ID || '7gmTYKqNX4xKsrd6NfNRscL3XSUoUTQyyTPhySWoABUc',
   usdcMint: process.env.SOLANA_USDC_MINT || 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // Devnet USDC
+  txCheckIntervalMs: parseInt(process.env.SOLANA_TX_CHECK_INTERVAL_MS || '15000', 10),
+  txMaxRetries: parseInt(process.env.SOLANA_TX_MAX_RETRIES || '5', 10), // run is flagged for operator attention after this many
+  priorityFeeMicroLamports: parseInt(process.env.SOLANA_PRIORITY_FEE_MICROLAMPORTS || '1000', 10), // per compute unit, doubled on each retry
+  maxPriorityFeeMicroLamports: parseInt(process.env.SOLANA_MAX_PRIORITY_FEE_MICROLAMPORTS || '100000', 10),
+};
+
+export const siwsConfig = {
+  // Sign-In-With-Solana message fields, checked against every signed message
+  domain: process.env.SIWS_DOMAIN || 'localhost:8081',
+  uri: process.env.SIWS_URI || process.env.CORS_ORIGIN || 'http://localhost:8081',
+  statement: process.env.SIWS_STATEMENT || 'Sign in to Instinct.fi. This signature will not trigger any blockchain transaction or cost any gas fees.',
+  chainId: process.env.SIWS_CHAIN_ID || process.env.SOLANA_NETWORK || 'devnet',
 };
 
 export const redisConfig = {
@@ -0,0 +1,40 @@
+/**
+ * Role-based access control for Instinct.fi
+ * The permissions each role grants are stored in the role_permissions table (see PermissionService)
+ */
+
+// Every permission a route can require
+export const PERMISSIONS = [
+  'runs:start',
+  'runs:end',
+  'runs:cancel',
+  'users:ban',
+  'users:roles',
+  'platform:manage',
+  'drift:read',
+  'drift:trade',
+  'audit:read',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Usernames that could be mistaken for staff accounts
+export const RESERVED_USERNAMES = ['admin', 'administrator', 'moderator', 'mod', 'operator', 'support', 'system', 'root', 'instinct', 'instinctfi'];
+
+/**
+ * Check whether a string names a known permission
+ * @param permission - Permission name
+ * @returns True if routes can require the permission
+ */
+export const isPermission = (permission: string): permission is Permission => {
+  return (PERMISSIONS as readonly string[]).includes(permission);
+};
+
+/**
+ * Check whether a username is reserved
+ * @param username - Requested username
+ * @returns True if the username may not be registered
+ */
+export const isReservedUsername = (username: string): boolean => {
+  return RESERVED_USERNAMES.includes(username.toLowerCase());
+};
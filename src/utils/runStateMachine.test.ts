@@ -0,0 +1,49 @@
+import { RunStatus } from '@prisma/client';
+import { AppError } from '@/types';
+import { RUN_TRANSITIONS, canTransition, assertTransition } from './runStateMachine';
+
+describe('runStateMachine', () => {
+  describe('canTransition', () => {
+    it('allows the forward lifecycle', () => {
+      expect(canTransition(RunStatus.WAITING, RunStatus.ACTIVE)).toBe(true);
+      expect(canTransition(RunStatus.ACTIVE, RunStatus.SETTLING)).toBe(true);
+      expect(canTransition(RunStatus.SETTLING, RunStatus.COOLDOWN)).toBe(true);
+      expect(canTransition(RunStatus.COOLDOWN, RunStatus.ENDED)).toBe(true);
+    });
+
+    it('allows cancelling only from the lobby', () => {
+      expect(canTransition(RunStatus.WAITING, RunStatus.CANCELLED)).toBe(true);
+      expect(canTransition(RunStatus.ACTIVE, RunStatus.CANCELLED)).toBe(false);
+      expect(canTransition(RunStatus.SETTLING, RunStatus.CANCELLED)).toBe(false);
+    });
+
+    it('rejects skipped and backward transitions', () => {
+      expect(canTransition(RunStatus.WAITING, RunStatus.SETTLING)).toBe(false);
+      expect(canTransition(RunStatus.ACTIVE, RunStatus.ENDED)).toBe(false);
+      expect(canTransition(RunStatus.SETTLING, RunStatus.ACTIVE)).toBe(false);
+      expect(canTransition(RunStatus.ACTIVE, RunStatus.ACTIVE)).toBe(false);
+    });
+
+    it('treats ENDED and CANCELLED as terminal', () => {
+      expect(RUN_TRANSITIONS[RunStatus.ENDED]).toEqual([]);
+      expect(RUN_TRANSITIONS[RunStatus.CANCELLED]).toEqual([]);
+    });
+  });
+
+  describe('assertTransition', () => {
+    it('passes for an allowed transition', () => {
+      expect(() => assertTransition(RunStatus.WAITING, RunStatus.ACTIVE)).not.toThrow();
+    });
+
+    it('throws a 409 AppError for a disallowed transition', () => {
+      expect.assertions(3);
+      try {
+        assertTransition(RunStatus.ENDED, RunStatus.ACTIVE);
+      } catch (error) {
+        expect(error).toBeInstanceOf(AppError);
+        expect((error as AppError).statusCode).toBe(409);
+        expect((error as AppError).message).toBe('Run cannot transition from ENDED to ACTIVE');
+      }
+    });
+  });
+});
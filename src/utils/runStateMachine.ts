@@ -0,0 +1,39 @@
+import { RunStatus } from '@prisma/client';
+import { AppError } from '@/types';
+
+/**
+ * Run lifecycle state machine for Instinct.fi
+ * WAITING → ACTIVE → SETTLING → COOLDOWN → ENDED
+ * WAITING → CANCELLED (lobby ended without enough participants, deposits refunded)
+ */
+
+// Allowed transitions from each run status
+export const RUN_TRANSITIONS: Record<RunStatus, RunStatus[]> = {
+  [RunStatus.WAITING]: [RunStatus.ACTIVE, RunStatus.CANCELLED],
+  [RunStatus.ACTIVE]: [RunStatus.SETTLING],
+  [RunStatus.SETTLING]: [RunStatus.COOLDOWN],
+  [RunStatus.COOLDOWN]: [RunStatus.ENDED],
+  [RunStatus.ENDED]: [],
+  [RunStatus.CANCELLED]: [],
+};
+
+/**
+ * Check whether a run may move from one status to another
+ * @param from - Current run status
+ * @param to - Target run status
+ * @returns True if the transition is allowed
+ */
+export const canTransition = (from: RunStatus, to: RunStatus): boolean => {
+  return RUN_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Throw if a run may not move from one status to another
+ * @param from - Current run status
+ * @param to - Target run status
+ */
+export const assertTransition = (from: RunStatus, to: RunStatus): void => {
+  if (!canTransition(from, to)) {
+    throw new AppError(`Run cannot transition from ${from} to ${to}`, 409);
+  }
+};
@@ -0,0 +1,76 @@
+import { SiwsMessage, formatSiwsMessage, parseSiwsMessage } from './siws';
+
+const fields: SiwsMessage = {
+  domain: 'instinct.fi',
+  address: '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin',
+  statement: 'Sign in to Instinct.fi',
+  uri: 'https://instinct.fi',
+  version: '1',
+  chainId: 'devnet',
+  nonce: 'a1b2c3d4',
+  issuedAt: '2025-01-01T00:00:00.000Z',
+  expirationTime: '2025-01-01T00:05:00.000Z',
+};
+
+describe('siws', () => {
+  describe('formatSiwsMessage', () => {
+    it('lays out the header, address, statement and fields', () => {
+      expect(formatSiwsMessage(fields)).toBe([
+        'instinct.fi wants you to sign in with your Solana account:',
+        '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin',
+        '',
+        'Sign in to Instinct.fi',
+        '',
+        'URI: https://instinct.fi',
+        'Version: 1',
+        'Chain ID: devnet',
+        'Nonce: a1b2c3d4',
+        'Issued At: 2025-01-01T00:00:00.000Z',
+        'Expiration Time: 2025-01-01T00:05:00.000Z',
+      ].join('\n'));
+    });
+
+    it('leaves out the optional statement and expiration time', () => {
+      const { statement, expirationTime, ...required } = fields;
+      const message = formatSiwsMessage(required);
+
+      expect(message).not.toContain(fields.statement);
+      expect(message).not.toContain('Expiration Time');
+      expect(message.split('\n')[2]).toBe('');
+      expect(message.split('\n')[3]).toBe('URI: https://instinct.fi');
+    });
+  });
+
+  describe('parseSiwsMessage', () => {
+    it('round-trips a formatted message', () => {
+      expect(parseSiwsMessage(formatSiwsMessage(fields))).toEqual(fields);
+    });
+
+    it('round-trips a message without the optional fields', () => {
+      const { statement, expirationTime, ...required } = fields;
+
+      expect(parseSiwsMessage(formatSiwsMessage(required))).toEqual(required);
+    });
+
+    it('rejects a message with the wrong header', () => {
+      const message = formatSiwsMessage(fields).replace('wants you to sign in', 'asks you to sign in');
+
+      expect(parseSiwsMessage(message)).toBeNull();
+    });
+
+    it('rejects a message with an unknown field', () => {
+      expect(parseSiwsMessage(`${formatSiwsMessage(fields)}\nResources: https://evil.example`)).toBeNull();
+    });
+
+    it('rejects a message missing a required field', () => {
+      const message = formatSiwsMessage(fields).replace('Nonce: a1b2c3d4\n', '');
+
+      expect(parseSiwsMessage(message)).toBeNull();
+    });
+
+    it('rejects arbitrary text', () => {
+      expect(parseSiwsMessage('')).toBeNull();
+      expect(parseSiwsMessage('Sign this message to log in')).toBeNull();
+    });
+  });
+});
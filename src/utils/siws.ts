@@ -0,0 +1,92 @@
+/**
+ * Sign-In-With-Solana (SIWS) message utilities for Instinct.fi
+ * Builds and parses the structured sign-in message wallets can display natively
+ */
+
+export interface SiwsMessage {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: string;
+  nonce: string;
+  issuedAt: string; // ISO 8601
+  expirationTime?: string; // ISO 8601
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Solana account:';
+
+// Field labels in message order
+const FIELD_LABELS: Array<[keyof SiwsMessage, string]> = [
+  ['uri', 'URI'],
+  ['version', 'Version'],
+  ['chainId', 'Chain ID'],
+  ['nonce', 'Nonce'],
+  ['issuedAt', 'Issued At'],
+  ['expirationTime', 'Expiration Time'],
+];
+
+/**
+ * Format SIWS fields into the message text a wallet signs
+ * @param fields - Structured sign-in fields
+ * @returns Message text
+ */
+export const formatSiwsMessage = (fields: SiwsMessage): string => {
+  let message = `${fields.domain}${HEADER_SUFFIX}\n${fields.address}`;
+
+  if (fields.statement) {
+    message += `\n\n${fields.statement}`;
+  }
+
+  const lines = FIELD_LABELS
+    .filter(([key]) => fields[key] !== undefined)
+    .map(([key, label]) => `${label}: ${fields[key]}`);
+
+  return `${message}\n\n${lines.join('\n')}`;
+};
+
+/**
+ * Parse a signed SIWS message back into its fields
+ * @param message - Message text
+ * @returns Structured fields, or null if the message is not a SIWS message
+ */
+export const parseSiwsMessage = (message: string): SiwsMessage | null => {
+  const lines = message.split('\n');
+  const header = lines[0];
+
+  if (!header || !header.endsWith(HEADER_SUFFIX) || !lines[1]) {
+    return null;
+  }
+
+  const fields: Partial<SiwsMessage> = {
+    domain: header.slice(0, -HEADER_SUFFIX.length),
+    address: lines[1],
+  };
+
+  // Optional statement sits between two blank lines after the address
+  let index = 2;
+  if (lines[index] === '' && lines[index + 2] === '' && lines[index + 1] !== undefined && !lines[index + 1]!.startsWith('URI: ')) {
+    fields.statement = lines[index + 1];
+    index += 2;
+  }
+
+  if (lines[index] !== '') {
+    return null;
+  }
+
+  for (const line of lines.slice(index + 1)) {
+    const field = FIELD_LABELS.find(([, label]) => line.startsWith(`${label}: `));
+    if (!field) {
+      return null;
+    }
+    fields[field[0]] = line.slice(field[1].length + 2);
+  }
+
+  const { domain, address, uri, version, chainId, nonce, issuedAt } = fields;
+  if (!domain || !address || !uri || !version || !chainId || !nonce || !issuedAt) {
+    return null;
+  }
+
+  return fields as SiwsMessage;
+};
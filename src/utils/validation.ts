@@ -1,18 +1,36 @@
 import Joi from 'joi';
-import { VoteChoice, RunStatus } from '@/types';
+import { VoteChoice, RunStatus, TallyStrategy, TieBreaker, Role } from '@/types';
+import { PERMISSIONS, RESERVED_USERNAMES } from './permissions';
 
 // User validation schemas
 export const createUserSchema = Joi.object({
   walletAddress: Joi.string().required().min(32).max(44),
-  username: Joi.string().required().min(3).max(20).alphanum(),
+  username: Joi.string().required().min(3).max(20).alphanum().insensitive().invalid(...RESERVED_USERNAMES),
   email: Joi.string().email().optional(),
 });
 
 export const updateUserSchema = Joi.object({
-  username: Joi.string().min(3).max(20).alphanum().optional(),
+  username: Joi.string().min(3).max(20).alphanum().insensitive().invalid(...RESERVED_USERNAMES).optional(),
   email: Joi.string().email().optional(),
 });
 
+export const updateUserRoleSchema = Joi.object({
+  role: Joi.string().valid(...Object.values(Role)).required(),
+});
+
+export const updateRolePermissionsSchema = Joi.object({
+  permissions: Joi.array().items(Joi.string().valid(...PERMISSIONS)).unique().required(),
+});
+
+// Auth validation schemas
+export const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string().required().hex().length(64),
+});
+
+export const logoutSchema = Joi.object({
+  refreshToken: Joi.string().hex().length(64).optional(),
+});
+
 // Run validation schemas
 export const createRunSchema = Joi.object({
   tradingPair: Joi.string().required().pattern(/^[A-Z]{2,10}\/[A-Z]{2,10}$/),
@@ -22,6 +40,9 @@ export const createRunSchema = Joi.object({
   minDeposit: Joi.number().integer().min(10).max(100).optional(), // 10-100 USDC
   maxDeposit: Joi.number().integer().min(10).max(100).optional(), // 10-100 USDC
   maxParticipants: Joi.number().integer().min(10).max(100).optional(),
+  tallyStrategy: Joi.string().valid(...Object.values(TallyStrategy)).optional(),
+  tieBreaker: Joi.string().valid(...Object.values(TieBreaker)).optional(),
+  supermajorityThreshold: Joi.number().integer().min(51).max(100).optional(), // percentage
 });
 
 export const joinRunSchema = Joi.object({
@@ -30,9 +51,15 @@ export const joinRunSchema = Joi.object({
 
 // Vote validation schemas
 export const castVoteSchema = Joi.object({
+  round: Joi.number().integer().min(1).required(),
   choice: Joi.string().valid(...Object.values(VoteChoice)).required(),
 });
 
+// WebSocket CAST_VOTE carries the run ID in the message instead of the URL
+export const castVoteMessageSchema = castVoteSchema.keys({
+  runId: Joi.string().required(),
+});
+
 // Chat validation schemas
 export const sendMessageSchema = Joi.object({
   message: Joi.string().required().min(1).max(500).trim(),
@@ -50,6 +77,22 @@ export const runQuerySchema = Joi.object({
   limit: Joi.number().integer().min(1).max(100).default(20),
 });
 
+export const notificationQuerySchema = Joi.object({
+  unreadOnly: Joi.boolean().default(false),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+export const auditQuerySchema = Joi.object({
+  actorId: Joi.string().optional(),
+  action: Joi.string().optional(),
+  success: Joi.boolean().optional(),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
 // Validation middleware
 export const validate = (schema: Joi.ObjectSchema) => {
   return (req: any, res: any, next: any) => {
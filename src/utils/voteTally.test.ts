@@ -0,0 +1,115 @@
+import { TallyStrategy, TieBreaker, VoteChoice } from '@/types';
+import { getVoteWeight, tallyVotes, TallyOptions, WeightedVote } from './voteTally';
+
+const vote = (choice: VoteChoice, weight: number = 1, secondsIn: number = 0): WeightedVote => ({
+  choice,
+  weight,
+  votedAt: new Date(Date.UTC(2025, 0, 1, 0, 0, secondsIn)),
+});
+
+const plurality: TallyOptions = {
+  strategy: TallyStrategy.PLURALITY,
+  tieBreaker: TieBreaker.SKIP,
+  supermajorityThreshold: 66,
+};
+
+describe('voteTally', () => {
+  describe('getVoteWeight', () => {
+    it('gives every vote the same weight under plurality and supermajority', () => {
+      expect(getVoteWeight(TallyStrategy.PLURALITY, 5000, 2500)).toBe(1);
+      expect(getVoteWeight(TallyStrategy.SUPERMAJORITY, 5000, 2500)).toBe(1);
+    });
+
+    it('weights by deposited USDC', () => {
+      expect(getVoteWeight(TallyStrategy.DEPOSIT_WEIGHTED, 2500, 0)).toBe(25);
+    });
+
+    it('weights by XP level, with level 0 still counting once', () => {
+      expect(getVoteWeight(TallyStrategy.XP_WEIGHTED, 0, 0)).toBe(1);
+      expect(getVoteWeight(TallyStrategy.XP_WEIGHTED, 0, 400)).toBe(3);
+    });
+  });
+
+  describe('tallyVotes', () => {
+    it('skips a round without votes', () => {
+      const result = tallyVotes([], plurality);
+
+      expect(result.winner).toBe(VoteChoice.SKIP);
+      expect(result.tieBroken).toBe(false);
+      expect(result).toMatchObject({ long: 0, short: 0, skip: 0 });
+    });
+
+    it('picks the choice with the most votes', () => {
+      const result = tallyVotes(
+        [vote(VoteChoice.LONG), vote(VoteChoice.SHORT), vote(VoteChoice.LONG)],
+        plurality
+      );
+
+      expect(result.winner).toBe(VoteChoice.LONG);
+      expect(result).toMatchObject({ long: 2, short: 1, skip: 0 });
+      expect(result.weights).toEqual({ long: 2, short: 1, skip: 0 });
+      expect(result.threshold).toBeUndefined();
+    });
+
+    it('decides by weight rather than head count', () => {
+      const result = tallyVotes(
+        [vote(VoteChoice.LONG, 10), vote(VoteChoice.SHORT, 4), vote(VoteChoice.SHORT, 4)],
+        { ...plurality, strategy: TallyStrategy.DEPOSIT_WEIGHTED }
+      );
+
+      expect(result.winner).toBe(VoteChoice.LONG);
+      expect(result).toMatchObject({ long: 1, short: 2 });
+    });
+
+    it('skips a tie under the SKIP tie-breaker', () => {
+      const result = tallyVotes([vote(VoteChoice.LONG), vote(VoteChoice.SHORT)], plurality);
+
+      expect(result.winner).toBe(VoteChoice.SKIP);
+      expect(result.tieBroken).toBe(true);
+    });
+
+    it('gives a tie to the earliest vote under the EARLIEST_VOTE tie-breaker', () => {
+      const result = tallyVotes(
+        [vote(VoteChoice.LONG, 1, 30), vote(VoteChoice.SHORT, 1, 10), vote(VoteChoice.SKIP, 0.5, 0)],
+        { ...plurality, tieBreaker: TieBreaker.EARLIEST_VOTE }
+      );
+
+      expect(result.winner).toBe(VoteChoice.SHORT);
+      expect(result.tieBroken).toBe(true);
+    });
+
+    it('picks one of the tied choices under the RANDOM tie-breaker', () => {
+      const randomSpy = jest.spyOn(Math, 'random').mockReturnValue(0.99);
+
+      try {
+        const result = tallyVotes(
+          [vote(VoteChoice.LONG), vote(VoteChoice.SHORT)],
+          { ...plurality, tieBreaker: TieBreaker.RANDOM }
+        );
+
+        expect(result.winner).toBe(VoteChoice.SHORT);
+        expect(result.tieBroken).toBe(true);
+      } finally {
+        randomSpy.mockRestore();
+      }
+    });
+
+    it('trades under supermajority only when the winner reaches the threshold', () => {
+      const options = { ...plurality, strategy: TallyStrategy.SUPERMAJORITY };
+
+      const reached = tallyVotes(
+        [vote(VoteChoice.LONG), vote(VoteChoice.LONG), vote(VoteChoice.SHORT)],
+        { ...options, supermajorityThreshold: 66 }
+      );
+      expect(reached.winner).toBe(VoteChoice.LONG);
+      expect(reached.threshold).toBe(66);
+
+      const missed = tallyVotes(
+        [vote(VoteChoice.LONG), vote(VoteChoice.LONG), vote(VoteChoice.SHORT)],
+        { ...options, supermajorityThreshold: 70 }
+      );
+      expect(missed.winner).toBe(VoteChoice.SKIP);
+      expect(missed.tieBroken).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { TallyStrategy, TieBreaker, VoteChoice, VoteDistribution } from '@/types';
+import { getXpLevel } from './xp';
+
+/**
+ * Vote tallying strategies for Instinct.fi
+ * Decides a round's trade direction from its votes according to the run's tally settings
+ */
+
+export interface TallyOptions {
+  strategy: TallyStrategy;
+  tieBreaker: TieBreaker;
+  supermajorityThreshold: number; // percentage of total vote weight
+}
+
+export interface WeightedVote {
+  choice: VoteChoice;
+  weight: number;
+  votedAt: Date;
+}
+
+const CHOICES: VoteChoice[] = [VoteChoice.LONG, VoteChoice.SHORT, VoteChoice.SKIP];
+
+/**
+ * Get the weight of a single vote under a tally strategy
+ * @param strategy - Tally strategy of the run
+ * @param depositAmount - Voter's deposit in the run (in cents)
+ * @param xp - Voter's total XP
+ * @returns Vote weight
+ */
+export const getVoteWeight = (strategy: TallyStrategy, depositAmount: number, xp: number): number => {
+  switch (strategy) {
+    case TallyStrategy.DEPOSIT_WEIGHTED:
+      // Weight by USDC deposited
+      return depositAmount / 100;
+    case TallyStrategy.XP_WEIGHTED:
+      // Level 0 players still get one vote
+      return 1 + getXpLevel(xp);
+    default:
+      return 1;
+  }
+};
+
+/**
+ * Break a tie between the leading choices
+ * @param tied - Choices sharing the highest weight
+ * @param votes - All weighted votes of the round
+ * @param tieBreaker - Tie-breaker rule of the run
+ * @returns Winning choice
+ */
+const breakTie = (tied: VoteChoice[], votes: WeightedVote[], tieBreaker: TieBreaker): VoteChoice => {
+  switch (tieBreaker) {
+    case TieBreaker.EARLIEST_VOTE: {
+      // The tied choice that received the first vote wins
+      const earliest = votes
+        .filter(v => tied.includes(v.choice))
+        .sort((a, b) => a.votedAt.getTime() - b.votedAt.getTime())[0];
+      return earliest ? earliest.choice : VoteChoice.SKIP;
+    }
+    case TieBreaker.RANDOM:
+      return tied[Math.floor(Math.random() * tied.length)] ?? VoteChoice.SKIP;
+    default:
+      return VoteChoice.SKIP;
+  }
+};
+
+/**
+ * Tally a round's votes into a trade direction
+ * @param votes - Weighted votes of the round
+ * @param options - Tally strategy, tie-breaker and supermajority threshold of the run
+ * @returns Vote distribution including the strategy, weights and winner
+ */
+export const tallyVotes = (votes: WeightedVote[], options: TallyOptions): VoteDistribution => {
+  const counts = { long: 0, short: 0, skip: 0 };
+  const weights = { long: 0, short: 0, skip: 0 };
+
+  for (const vote of votes) {
+    const key = vote.choice.toLowerCase() as keyof typeof counts;
+    counts[key] += 1;
+    weights[key] += vote.weight;
+  }
+
+  const weightOf = (choice: VoteChoice): number => weights[choice.toLowerCase() as keyof typeof weights];
+  const topWeight = Math.max(...CHOICES.map(weightOf));
+  const leaders = CHOICES.filter(choice => weightOf(choice) === topWeight);
+
+  let winner: VoteChoice = VoteChoice.SKIP;
+  let tieBroken = false;
+
+  if (topWeight > 0) {
+    if (leaders.length === 1) {
+      winner = leaders[0]!;
+    } else {
+      winner = breakTie(leaders, votes, options.tieBreaker);
+      tieBroken = true;
+    }
+  }
+
+  // Supermajority runs only trade when the winning side holds enough of the total weight
+  if (options.strategy === TallyStrategy.SUPERMAJORITY && winner !== VoteChoice.SKIP) {
+    const totalWeight = weights.long + weights.short + weights.skip;
+    if ((weightOf(winner) / totalWeight) * 100 < options.supermajorityThreshold) {
+      winner = VoteChoice.SKIP;
+    }
+  }
+
+  return {
+    ...counts,
+    strategy: options.strategy,
+    tieBreaker: options.tieBreaker,
+    ...(options.strategy === TallyStrategy.SUPERMAJORITY && { threshold: options.supermajorityThreshold }),
+    weights,
+    winner,
+    tieBroken,
+  };
+};
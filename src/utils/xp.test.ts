@@ -0,0 +1,60 @@
+import { VoteChoice } from '@/types';
+import { config } from './config';
+import { XP_REWARDS, calculateVoteXp, calculateRunXp, isVoteCorrect } from './xp';
+
+describe('xp', () => {
+  describe('isVoteCorrect', () => {
+    it('grades LONG correct only when the price rose', () => {
+      expect(isVoteCorrect(VoteChoice.LONG, 100, 101)).toBe(true);
+      expect(isVoteCorrect(VoteChoice.LONG, 100, 99)).toBe(false);
+      expect(isVoteCorrect(VoteChoice.LONG, 100, 100)).toBe(false);
+    });
+
+    it('grades SHORT correct only when the price fell', () => {
+      expect(isVoteCorrect(VoteChoice.SHORT, 100, 99)).toBe(true);
+      expect(isVoteCorrect(VoteChoice.SHORT, 100, 101)).toBe(false);
+      expect(isVoteCorrect(VoteChoice.SHORT, 100, 100)).toBe(false);
+    });
+
+    it('grades SKIP correct when the move stays within the tolerance', () => {
+      const tolerance = config.skipVoteTolerancePercent;
+
+      expect(isVoteCorrect(VoteChoice.SKIP, 100, 100)).toBe(true);
+      expect(isVoteCorrect(VoteChoice.SKIP, 100, 100 + tolerance)).toBe(true);
+      expect(isVoteCorrect(VoteChoice.SKIP, 100, 100 - tolerance)).toBe(true);
+      expect(isVoteCorrect(VoteChoice.SKIP, 100, 100 + tolerance * 2)).toBe(false);
+      expect(isVoteCorrect(VoteChoice.SKIP, 100, 100 - tolerance * 2)).toBe(false);
+    });
+
+    it('treats a missing entry price as no move', () => {
+      expect(isVoteCorrect(VoteChoice.LONG, 0, 100)).toBe(false);
+      expect(isVoteCorrect(VoteChoice.SHORT, 0, 100)).toBe(false);
+      expect(isVoteCorrect(VoteChoice.SKIP, 0, 100)).toBe(true);
+    });
+  });
+
+  describe('calculateVoteXp', () => {
+    it('rewards participation alone for an incorrect vote', () => {
+      expect(calculateVoteXp(false)).toBe(XP_REWARDS.VOTE_PARTICIPATION);
+    });
+
+    it('adds the correct vote and consecutive participation bonuses', () => {
+      expect(calculateVoteXp(true)).toBe(XP_REWARDS.VOTE_PARTICIPATION + XP_REWARDS.CORRECT_VOTE);
+      expect(calculateVoteXp(true, true)).toBe(
+        XP_REWARDS.VOTE_PARTICIPATION + XP_REWARDS.CORRECT_VOTE + XP_REWARDS.CONSECUTIVE_PARTICIPATION
+      );
+    });
+  });
+
+  describe('calculateRunXp', () => {
+    it('rewards nothing for a losing run', () => {
+      expect(calculateRunXp(false)).toBe(0);
+    });
+
+    it('sums the first run, win and perfect run bonuses', () => {
+      expect(calculateRunXp(true)).toBe(XP_REWARDS.RUN_WIN);
+      expect(calculateRunXp(false, false, true)).toBe(XP_REWARDS.FIRST_RUN);
+      expect(calculateRunXp(true, true, true)).toBe(XP_REWARDS.FIRST_RUN + XP_REWARDS.RUN_WIN + XP_REWARDS.PERFECT_RUN);
+    });
+  });
+});
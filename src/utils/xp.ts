@@ -3,7 +3,8 @@
  * Handles XP calculation, badge awarding, and progression tracking
  */
 
-import { XpHistory } from '@/types';
+import { XpHistory, VoteChoice } from '@/types';
+import { config } from './config';
 
 export interface XpReward {
   amount: number;
@@ -122,6 +123,27 @@ export const calculateVoteXp = (isCorrect: boolean, isConsecutive: boolean = fal
   return xp;
 };
 
+/**
+ * Grade a vote against the realized price move of its round
+ * LONG/SHORT are correct when the price moved their way, SKIP when it barely moved
+ * @param choice - Vote choice
+ * @param entryPrice - Price when the round's trade was opened
+ * @param exitPrice - Price when the round's trade was closed
+ * @returns Whether the vote was correct
+ */
+export const isVoteCorrect = (choice: VoteChoice, entryPrice: number, exitPrice: number): boolean => {
+  const movePercent = entryPrice > 0 ? ((exitPrice - entryPrice) / entryPrice) * 100 : 0;
+
+  switch (choice) {
+    case VoteChoice.LONG:
+      return movePercent > 0;
+    case VoteChoice.SHORT:
+      return movePercent < 0;
+    default:
+      return Math.abs(movePercent) <= config.skipVoteTolerancePercent;
+  }
+};
+
 /**
  * Calculate XP reward for run completion
  * @param isWinner - Whether the user won the run
@@ -163,7 +185,7 @@ export const calculateChatXp = (messageCount: number): number => {
 /**
  * Check if user qualifies for any new badges
  * @param userStats - User's current statistics
- * @param currentBadges - Array of badge IDs the user already has
+ * @param currentBadges - Array of badge names the user already has
  * @returns Array of new badges the user qualifies for
  */
 export const checkNewBadges = (
@@ -172,9 +194,7 @@ export const checkNewBadges = (
 ): BadgeCriteria[] => {
   return BADGE_CRITERIA.filter(badge => {
     // Check if user already has this badge
-    const hasBadge = currentBadges.some(badgeId => 
-      BADGE_CRITERIA.find(b => b.name === badgeId)?.name === badge.name
-    );
+    const hasBadge = currentBadges.includes(badge.name);
     
     // Check if user meets criteria
     const meetsCriteria = badge.condition(userStats);